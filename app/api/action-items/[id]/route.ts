@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { updateActionItem } from "@/lib/action-items";
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+
+const updateSchema = z
+  .object({
+    text: z.string().trim().min(1).max(500),
+    owner: z.string().trim().max(80).nullable(),
+    dueDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+      .nullable(),
+    status: z.enum(["OPEN", "DONE"])
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, "Nothing to update");
+
+/**
+ * PATCH /api/action-items/[id]
+ * Edit, reassign or complete an action item, e.g. { status: "DONE" } or
+ * { owner: "Priya", dueDate: "2026-10-24" }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser(request);
+
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const actionItem = await updateActionItem(user.id, params.id, parsed.data);
+    return NextResponse.json({ actionItem });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to update action item");
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { listActionItems } from "@/lib/action-items";
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+
+const querySchema = z.object({
+  status: z.enum(["OPEN", "DONE"]).optional(),
+  owner: z.string().trim().min(1).optional(),
+  sessionId: z.string().min(1).optional()
+});
+
+/**
+ * GET /api/action-items
+ * List the user's action items across sessions, optionally filtered by
+ * ?status=OPEN|DONE, ?owner= and ?sessionId=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const actionItems = await listActionItems(user.id, parsed.data);
+    return NextResponse.json({ actionItems });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to fetch action items");
+  }
+}
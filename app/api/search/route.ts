@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+import { searchSessions } from "@/lib/search";
+
+const querySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+/**
+ * GET /api/search?q=budget review&limit=20
+ * Full-text search across the user's transcripts and summaries, best
+ * matches first, with highlighted snippets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const results = await searchSessions(user.id, parsed.data.q, {
+      limit: parsed.data.limit
+    });
+    return NextResponse.json({ results });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to search sessions");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { serveStoredAudio } from "@/lib/audio/http";
+import { prisma } from "@/lib/prisma";
+import { getAudioStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/sessions/[id]/audio
+ * Stream the assembled session recording, with Range support for seeking
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const session = await prisma.session.findUnique({
+      where: { id: params.id },
+      select: { audioArtifact: true }
+    });
+    if (!session?.audioArtifact) {
+      return NextResponse.json(
+        { error: "No audio recorded for this session" },
+        { status: 404 }
+      );
+    }
+
+    const response = await serveStoredAudio(
+      request,
+      getAudioStorage(),
+      session.audioArtifact
+    );
+    return (
+      response ??
+      NextResponse.json({ error: "Audio file is missing" }, { status: 404 })
+    );
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to load session audio");
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { serveAudioBuffer } from "@/lib/audio/http";
+import { hasWebmHeader, isWebm, withWebmHeader } from "@/lib/audio/webm";
+import { prisma } from "@/lib/prisma";
+import { contentTypeForKey, getAudioStorage, sessionHeaderKey } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/sessions/[id]/chunks/[sequence]/audio
+ * Serve one chunk's audio. Headerless WebM chunks get the session's header
+ * prepended so they play on their own.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; sequence: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const sequence = Number(params.sequence);
+    if (!Number.isInteger(sequence) || sequence < 0) {
+      return NextResponse.json({ error: "Invalid chunk sequence" }, { status: 400 });
+    }
+
+    const chunk = await prisma.transcriptChunk.findUnique({
+      where: { sessionId_sequence: { sessionId: params.id, sequence } },
+      select: { audioUrl: true }
+    });
+    if (!chunk?.audioUrl) {
+      return NextResponse.json({ error: "No audio stored for this chunk" }, { status: 404 });
+    }
+
+    const storage = getAudioStorage();
+    if (!(await storage.stat(chunk.audioUrl))) {
+      return NextResponse.json({ error: "Audio file is missing" }, { status: 404 });
+    }
+
+    const contentType = contentTypeForKey(chunk.audioUrl);
+    let audio = await storage.get(chunk.audioUrl);
+    if (isWebm(contentType) && !hasWebmHeader(audio)) {
+      const headerKey = sessionHeaderKey(params.id);
+      const header = (await storage.stat(headerKey)) ? await storage.get(headerKey) : null;
+      audio = withWebmHeader(audio, header);
+    }
+
+    return serveAudioBuffer(request, audio, contentType);
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to load chunk audio");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { EXPORT_FORMATS, exportSession } from "@/lib/session-export";
+
+const querySchema = z.object({
+  format: z.enum(EXPORT_FORMATS)
+});
+
+/**
+ * GET /api/sessions/[id]/export?format=srt|vtt|md|docx|json
+ * Download the session as subtitles, a document with summary and
+ * transcript, or a JSON file that `POST /api/sessions/import` accepts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const { body, filename, contentType } = await exportSession(params.id, parsed.data.format);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to export session");
+  }
+}
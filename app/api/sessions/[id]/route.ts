@@ -1,22 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
 import { prisma } from "@/lib/prisma";
+import { updateSessionTags } from "@/lib/session-list";
+import { getAudioStorage, sessionHeaderKey } from "@/lib/storage";
+import { summaryVersionMetaSelect } from "@/lib/summary-versions";
 
 /**
  * GET /api/sessions/[id]
- * Fetch a specific session with full transcript
+ * Fetch a specific session with full transcript, its current summary and
+ * the summary's version history
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    await requireSessionOwner(request, params.id);
+
     const session = await prisma.session.findUnique({
       where: { id: params.id },
       include: {
         summary: true,
+        summaryVersions: {
+          orderBy: { version: "desc" },
+          select: summaryVersionMetaSelect
+        },
         transcript: {
-          orderBy: { sequence: "asc" }
+          orderBy: { sequence: "asc" },
+          include: {
+            segments: {
+              orderBy: { index: "asc" },
+              select: {
+                index: true,
+                speakerTag: true,
+                speakerId: true,
+                text: true,
+                startMs: true,
+                endMs: true,
+                confidence: true
+              }
+            }
+          }
+        },
+        speakers: {
+          orderBy: { createdAt: "asc" },
+          select: { id: true, label: true, name: true }
         },
         user: {
           select: { id: true, email: true, name: true }
@@ -30,36 +60,79 @@ export async function GET(
 
     return NextResponse.json({ session });
   } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error("Error fetching session:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch session" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error, "Failed to fetch session");
+  }
+}
+
+const updateSchema = z.object({
+  tags: z.array(z.string().trim().max(32)).max(20)
+});
+
+/**
+ * PATCH /api/sessions/[id]
+ * Replace the session's tags: { tags: ["customer", "q4"] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const tags = await updateSessionTags(params.id, parsed.data.tags);
+    return NextResponse.json({ tags });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to update session");
   }
 }
 
 /**
  * DELETE /api/sessions/[id]
- * Delete a session and all associated data
+ * Delete a session and all associated data, including its recorded audio.
+ * Audio is removed after the row, so a failed delete leaves nothing
+ * dangling; objects that cannot be removed are logged, not reported.
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    await requireSessionOwner(request, params.id);
+
+    const session = await prisma.session.findUnique({
+      where: { id: params.id },
+      select: {
+        audioArtifact: true,
+        transcript: { where: { audioUrl: { not: null } }, select: { audioUrl: true } }
+      }
+    });
+    const audioKeys = [
+      ...(session?.transcript.map((chunk) => chunk.audioUrl!) ?? []),
+      sessionHeaderKey(params.id),
+      ...(session?.audioArtifact ? [session.audioArtifact] : [])
+    ];
+
     await prisma.session.delete({
       where: { id: params.id }
     });
 
+    const storage = getAudioStorage();
+    const results = await Promise.allSettled(audioKeys.map((key) => storage.delete(key)));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to delete audio ${audioKeys[index]}:`, result.reason);
+      }
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error("Error deleting session:", error);
-    return NextResponse.json(
-      { error: "Failed to delete session" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error, "Failed to delete session");
   }
 }
 
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { listSpeakers, renameSpeakers } from "@/lib/speakers";
+
+const renameSchema = z.object({
+  speakers: z
+    .array(
+      z.object({
+        label: z.string().min(1),
+        name: z.string().trim().max(80).nullable()
+      })
+    )
+    .min(1)
+});
+
+/**
+ * GET /api/sessions/[id]/speakers
+ * List the speakers of a session
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+    return NextResponse.json({ speakers: await listSpeakers(params.id) });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to fetch speakers");
+  }
+}
+
+/**
+ * PATCH /api/sessions/[id]/speakers
+ * Rename speakers, e.g. { speakers: [{ label: "Speaker 2", name: "Priya" }] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionOwner(request, params.id);
+
+    const parsed = renameSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const speakers = await renameSpeakers(params.id, user.id, parsed.data.speakers);
+    return NextResponse.json({ speakers });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to rename speakers");
+  }
+}
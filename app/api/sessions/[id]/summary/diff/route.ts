@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { diffSummaryVersions } from "@/lib/summary-versions";
+
+const querySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional()
+});
+
+/**
+ * GET /api/sessions/[id]/summary/diff?from=1&to=3
+ * Line diff between two summary versions; `to` defaults to the current one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const diff = await diffSummaryVersions(params.id, parsed.data.from, parsed.data.to);
+    return NextResponse.json({ diff });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to diff summary versions");
+  }
+}
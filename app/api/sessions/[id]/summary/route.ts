@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { regenerateSessionSummary } from "@/lib/session-summary";
+import { editSessionSummary } from "@/lib/summary-versions";
+
+const regenerateSchema = z.object({
+  templateId: z.string().min(1).optional()
+});
+
+const content = z.string().max(20_000);
+
+const editSchema = z
+  .object({
+    sections: z.array(z.object({ key: z.string().min(1), content })).min(1),
+    keyPoints: content,
+    actionItems: content,
+    decisions: content
+  })
+  .partial()
+  .refine((edit) => Object.keys(edit).length > 0, "Nothing to update");
+
+/**
+ * POST /api/sessions/[id]/summary
+ * Re-run summarization from the stored transcript, without re-recording,
+ * optionally with another template: { templateId: "standup" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionOwner(request, params.id);
+
+    // The body is optional
+    const parsed = regenerateSchema.safeParse((await request.json().catch(() => null)) ?? {});
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const summary = await regenerateSessionSummary(params.id, {
+      userId: user.id,
+      templateId: parsed.data.templateId
+    });
+    return NextResponse.json({ summary, summaryStatus: "READY" });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to summarize session");
+  }
+}
+
+/**
+ * PATCH /api/sessions/[id]/summary
+ * Save a hand-edited summary as a new version, e.g.
+ * { sections: [{ key: "decisions", content: "- Ship on Friday [#12]" }] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionOwner(request, params.id);
+
+    const parsed = editSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const summary = await editSessionSummary(params.id, user.id, parsed.data);
+    return NextResponse.json({ summary });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to edit summary");
+  }
+}
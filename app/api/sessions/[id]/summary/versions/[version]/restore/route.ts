@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { restoreSummaryVersion } from "@/lib/summary-versions";
+
+const versionSchema = z.coerce.number().int().positive();
+
+/**
+ * POST /api/sessions/[id]/summary/versions/[version]/restore
+ * Make an earlier version the current summary again, as a new version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  try {
+    const user = await requireSessionOwner(request, params.id);
+
+    const parsed = versionSchema.safeParse(params.version);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid summary version" }, { status: 400 });
+    }
+
+    const summary = await restoreSummaryVersion(params.id, parsed.data, user.id);
+    return NextResponse.json({ summary });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to restore summary version");
+  }
+}
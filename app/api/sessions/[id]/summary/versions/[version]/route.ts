@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { getSummaryVersion } from "@/lib/summary-versions";
+
+const versionSchema = z.coerce.number().int().positive();
+
+/**
+ * GET /api/sessions/[id]/summary/versions/[version]
+ * Fetch one summary version with its content
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const parsed = versionSchema.safeParse(params.version);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid summary version" }, { status: 400 });
+    }
+
+    const version = await getSummaryVersion(params.id, parsed.data);
+    return NextResponse.json({ version });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to fetch summary version");
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { apiErrorResponse, requireSessionOwner } from "@/lib/api-auth";
+import { listSummaryVersions } from "@/lib/summary-versions";
+
+/**
+ * GET /api/sessions/[id]/summary/versions
+ * List the session's summary versions, newest first, without their content
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireSessionOwner(request, params.id);
+
+    const versions = await listSummaryVersions(params.id);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to fetch summary versions");
+  }
+}
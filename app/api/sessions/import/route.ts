@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ApiError, apiErrorResponse, requireUser } from "@/lib/api-auth";
+import { sessionExportSchema } from "@/lib/session-export";
+import { importSession } from "@/lib/session-import";
+
+/** Larger uploads are refused before they are parsed. */
+const MAX_IMPORT_BYTES = Number(process.env.SESSION_IMPORT_MAX_BYTES ?? 25 * 1024 * 1024);
+
+/**
+ * Reads the request body as text, throwing a 413 ApiError as soon as it
+ * exceeds MAX_IMPORT_BYTES (also when the client sent no Content-Length).
+ */
+async function readImportBody(request: NextRequest) {
+  const tooLarge = () => new ApiError(413, `Imports are limited to ${MAX_IMPORT_BYTES} bytes`);
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_IMPORT_BYTES) {
+    throw tooLarge();
+  }
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMPORT_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * POST /api/sessions/import
+ * Recreate a session from a JSON export
+ * (`GET /api/sessions/[id]/export?format=json`) as a new session of the user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    const body = await readImportBody(request);
+    let json: unknown = null;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      // Reported by the schema below
+    }
+    const parsed = sessionExportSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const sessionId = await importSession(user.id, parsed.data);
+    return NextResponse.json({ sessionId }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to import session");
+  }
+}
@@ -1,38 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 
-import { prisma } from "@/lib/prisma";
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+import { listSessions, normalizeTags } from "@/lib/session-list";
+
+const querySchema = z
+  .object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    status: z
+      .enum(["PENDING", "RECORDING", "PAUSED", "PROCESSING", "COMPLETED", "FAILED"])
+      .optional(),
+    source: z.enum(["MIC", "TAB"]).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    tag: z
+      .string()
+      .transform((value) => normalizeTags(value.split(",")))
+      .optional(),
+    minDurationMs: z.coerce.number().int().nonnegative().optional(),
+    maxDurationMs: z.coerce.number().int().nonnegative().optional(),
+    sort: z.enum(["startedAt", "durationMs"]).default("startedAt"),
+    order: z.enum(["asc", "desc"]).default("desc")
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "`from` must not be after `to`"
+  });
 
 /**
  * GET /api/sessions
- * Fetch all sessions for the authenticated user
+ * One page of the user's sessions, newest first by default. Filters:
+ * ?status=, ?source=MIC|TAB, ?from=&to= (start date), ?tag=a,b (all of),
+ * ?minDurationMs=&maxDurationMs=; ?sort=startedAt|durationMs&order=asc|desc;
+ * ?limit= and ?cursor= (the previous page's nextCursor)
  */
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Extract userId from Better Auth session
-    const searchParams = request.nextUrl.searchParams;
-    const userId = searchParams.get("userId") || "demo-user"; // Temporary for demo
+    const user = await requireUser(request);
 
-    const sessions = await prisma.session.findMany({
-      where: { userId },
-      include: {
-        summary: true,
-        transcript: {
-          orderBy: { sequence: "asc" },
-          take: 5 // Preview chunks only
-        }
-      },
-      orderBy: { createdAt: "desc" },
-      take: 20
-    });
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
 
-    return NextResponse.json({ sessions });
+    const { tag, ...options } = parsed.data;
+    const page = await listSessions(user.id, { ...options, tags: tag });
+    return NextResponse.json(page);
   } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error("Error fetching sessions:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch sessions" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error, "Failed to fetch sessions");
   }
 }
-
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+import {
+  deleteSummaryTemplate,
+  templateSectionsSchema,
+  updateSummaryTemplate
+} from "@/lib/summary-templates";
+
+const updateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    instructions: z.string().trim().max(1000).nullable(),
+    sections: templateSectionsSchema
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, "Nothing to update");
+
+/**
+ * PATCH /api/summary-templates/[id]
+ * Update one of the user's templates (built-in templates are read-only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser(request);
+
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const template = await updateSummaryTemplate(user.id, params.id, parsed.data);
+    return NextResponse.json({ template });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to update summary template");
+  }
+}
+
+/**
+ * DELETE /api/summary-templates/[id]
+ * Delete one of the user's templates
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser(request);
+    await deleteSummaryTemplate(user.id, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to delete summary template");
+  }
+}
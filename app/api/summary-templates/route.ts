@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { apiErrorResponse, requireUser } from "@/lib/api-auth";
+import {
+  createSummaryTemplate,
+  listSummaryTemplates,
+  templateSectionsSchema
+} from "@/lib/summary-templates";
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  instructions: z.string().trim().max(1000).nullable().optional(),
+  sections: templateSectionsSchema
+});
+
+/**
+ * GET /api/summary-templates
+ * List the built-in summary templates followed by the user's own
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    return NextResponse.json({ templates: await listSummaryTemplates(user.id) });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to fetch summary templates");
+  }
+}
+
+/**
+ * POST /api/summary-templates
+ * Create a template, e.g. { name: "Retro", sections: [{ title: "Went well",
+ * instructions: "..." }, { title: "Follow-ups", instructions: "...", kind: "actionItems" }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    const parsed = createSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.message }, { status: 400 });
+    }
+
+    const template = await createSummaryTemplate(user.id, parsed.data);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error, "Failed to create summary template");
+  }
+}
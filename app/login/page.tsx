@@ -1,12 +1,23 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 
 import { Button } from "@/components/ui/button";
+import { signIn, signUp } from "@/lib/auth-client";
 
 export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isSignUp, setIsSignUp] = useState(false);
@@ -19,20 +30,23 @@ export default function LoginPage() {
     setError("");
 
     try {
-      const endpoint = isSignUp ? "/api/auth/signup" : "/api/auth/signin";
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password })
-      });
+      const { error: authError } = isSignUp
+        ? await signUp.email({ email, password, name: email.split("@")[0] })
+        : await signIn.email({ email, password });
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.message || "Authentication failed");
+      if (authError) {
+        throw new Error(authError.message || "Authentication failed");
       }
 
-      // Redirect to sessions page on success
-      router.push("/sessions");
+      // Back to the page the middleware redirected from, sessions by default.
+      // Resolved against this origin, since browsers read "/\evil.com" as "//evil.com"
+      const from = searchParams.get("from");
+      const target = from?.startsWith("/") ? new URL(from, window.location.origin) : null;
+      router.push(
+        target?.origin === window.location.origin
+          ? `${target.pathname}${target.search}${target.hash}`
+          : "/sessions"
+      );
       router.refresh();
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
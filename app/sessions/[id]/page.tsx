@@ -0,0 +1,600 @@
+"use client";
+
+import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+
+import { ChunkSegments } from "@/components/transcript/chunk-segments";
+import { CitedText } from "@/components/transcript/cited-text";
+import { Button } from "@/components/ui/button";
+import {
+  SessionFetchError,
+  useRegenerateSummary,
+  useRenameSpeakers,
+  useRestoreSummaryVersion,
+  useSessionDetail,
+  useSummaryDiff,
+  useUpdateSessionTags
+} from "@/hooks/useSessionDetail";
+import { useSummaryTemplates } from "@/hooks/useSummaryTemplates";
+import { buildTimeline, formatTimestamp, type Timed } from "@/lib/timeline";
+import type {
+  SpeakerRecord,
+  SummaryDiffLine,
+  SummaryVersionMeta,
+  TranscriptChunkRecord
+} from "@/types/session";
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: "bg-white/10 text-white",
+  RECORDING: "bg-green-500/20 text-green-300",
+  PAUSED: "bg-yellow-500/20 text-yellow-200",
+  PROCESSING: "bg-blue-500/20 text-blue-200",
+  COMPLETED: "bg-emerald-500/20 text-emerald-200",
+  FAILED: "bg-red-500/20 text-red-200"
+};
+
+/** Formats of `GET /api/sessions/[id]/export`. */
+const EXPORT_LABELS: Record<string, string> = {
+  md: "Markdown",
+  docx: "Word",
+  srt: "SRT",
+  vtt: "WebVTT",
+  json: "JSON"
+};
+
+type TimedChunk = Timed<TranscriptChunkRecord>;
+
+type SessionDetailPageProps = {
+  params: { id: string };
+  /** `?chunk=12` opens the session at that chunk, e.g. from a search result. */
+  searchParams: { chunk?: string };
+};
+
+export default function SessionDetailPage({ params, searchParams }: SessionDetailPageProps) {
+  const { data: session, error, isPending } = useSessionDetail(params.id);
+  const regenerate = useRegenerateSummary(params.id);
+  const { data: templates } = useSummaryTemplates();
+  const [templateChoice, setTemplateChoice] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const lineRefs = useRef(new Map<number, HTMLElement>());
+  const [currentMs, setCurrentMs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const timeline = useMemo(
+    () => buildTimeline(session?.transcript ?? []),
+    [session?.transcript]
+  );
+
+  const activeSequence = useMemo(() => {
+    if (!playing && currentMs === 0) return null;
+    return (
+      timeline.find((chunk) => currentMs >= chunk.startMs && currentMs < chunk.endMs)
+        ?.sequence ?? null
+    );
+  }, [currentMs, playing, timeline]);
+
+  const speakerNames = useMemo(
+    () =>
+      new Map(
+        (session?.speakers ?? []).map((speaker) => [speaker.id, speaker.name || speaker.label])
+      ),
+    [session?.speakers]
+  );
+
+  const nameOf = (segment: { speakerId: string | null; speakerTag: string }) =>
+    (segment.speakerId && speakerNames.get(segment.speakerId)) || segment.speakerTag;
+
+  const talkTime = useMemo(() => {
+    // Keyed by speaker id, or by raw label for segments without one
+    const totals = new Map<string, { turns: number; ms: number }>();
+    const add = (key: string, ms: number) => {
+      const entry = totals.get(key) ?? { turns: 0, ms: 0 };
+      entry.turns += 1;
+      entry.ms += ms;
+      totals.set(key, entry);
+    };
+    for (const chunk of timeline) {
+      if (chunk.status !== "TRANSCRIBED") continue;
+      if (chunk.segments.length === 0) {
+        if (chunk.text) add(chunk.speakerTag, chunk.endMs - chunk.startMs);
+        continue;
+      }
+      // Without provider timings, split the chunk evenly between its turns
+      const share = (chunk.endMs - chunk.startMs) / chunk.segments.length;
+      for (const segment of chunk.segments) {
+        const ms =
+          segment.startMs !== null && segment.endMs !== null
+            ? segment.endMs - segment.startMs
+            : share;
+        add(segment.speakerId ?? segment.speakerTag, ms);
+      }
+    }
+    return totals;
+  }, [timeline]);
+
+  // Cue the recording to the linked chunk once the transcript is loaded
+  const linkedChunk = Number(searchParams.chunk);
+  const cuedRef = useRef(false);
+  useEffect(() => {
+    if (cuedRef.current || !Number.isInteger(linkedChunk)) return;
+    const chunk = timeline.find((candidate) => candidate.sequence === linkedChunk);
+    if (!chunk) return;
+    cuedRef.current = true;
+    if (audioRef.current) audioRef.current.currentTime = chunk.startMs / 1000;
+    setCurrentMs(chunk.startMs);
+    lineRefs.current.get(linkedChunk)?.scrollIntoView({ block: "center" });
+  }, [linkedChunk, timeline]);
+
+  // Keep the highlighted line in view while the recording plays
+  useEffect(() => {
+    if (!playing || activeSequence === null) return;
+    lineRefs.current.get(activeSequence)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeSequence, playing]);
+
+  /** Seeks to a chunk, or to a speaker turn `withinChunkMs` into it. */
+  const seekTo = (chunk: TimedChunk, withinChunkMs = 0) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const targetMs = Math.min(chunk.startMs + withinChunkMs, chunk.endMs);
+    audio.currentTime = targetMs / 1000;
+    setCurrentMs(targetMs);
+    void audio.play().catch(() => {
+      // Autoplay may be blocked; the position is still updated
+    });
+  };
+
+  /** Follows a summary citation to the chunk it points at. */
+  const seekToSequence = (sequence: number) => {
+    const chunk = timeline.find((candidate) => candidate.sequence === sequence);
+    if (!chunk) return;
+    seekTo(chunk);
+    lineRefs.current.get(sequence)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  if (isPending) {
+    return <p className="px-6 py-10 text-sm text-white/50">Loading session…</p>;
+  }
+
+  if (error || !session) {
+    const notFound =
+      error instanceof SessionFetchError && (error.status === 404 || error.status === 403);
+    return (
+      <div className="mx-auto max-w-4xl space-y-4 px-6 py-10">
+        <p className="text-sm text-red-200">
+          {notFound ? "This session does not exist." : error?.message ?? "Failed to load session"}
+        </p>
+        <Link className="text-sm text-white/70 underline" href="/sessions">
+          Back to sessions
+        </Link>
+      </div>
+    );
+  }
+
+  // Regenerating keeps the session's template unless another one is picked
+  const selectedTemplate = templateChoice ?? session.summary?.templateId ?? "meeting";
+
+  return (
+    <div className="mx-auto grid max-w-6xl gap-8 px-6 py-10 md:grid-cols-[1fr,360px]">
+      <header className="space-y-2 md:col-span-2">
+        <Link className="text-sm text-white/60 hover:text-white" href="/sessions">
+          ← All sessions
+        </Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl font-semibold text-white">
+            Session {session.id.slice(0, 8)}
+          </h1>
+          <span
+            className={`rounded-full px-3 py-1 text-xs font-semibold ${STATUS_COLORS[session.status]}`}
+          >
+            {session.status}
+          </span>
+        </div>
+        <p className="text-sm text-white/60">
+          {new Date(session.startedAt).toLocaleString()}
+          {session.durationMs !== null ? ` · ${formatTimestamp(session.durationMs)}` : ""}
+        </p>
+        <SessionTags sessionId={session.id} tags={session.tags} />
+        {session.statusReason ? (
+          <p className="text-xs text-yellow-100">{session.statusReason}</p>
+        ) : null}
+        {session.status === "COMPLETED" || session.status === "FAILED" ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-white/50">Export:</span>
+            {Object.entries(EXPORT_LABELS).map(([format, label]) => (
+              <a
+                key={format}
+                download
+                className="rounded-full border border-white/10 px-3 py-1 text-white/70 hover:border-white/30 hover:text-white"
+                href={`/api/sessions/${session.id}/export?format=${format}`}
+              >
+                {label}
+              </a>
+            ))}
+          </div>
+        ) : null}
+      </header>
+
+      <section className="flex flex-col rounded-2xl border border-white/5 bg-slate-950/60 p-6">
+        {session.audioArtifact ? (
+          <audio
+            ref={audioRef}
+            controls
+            className="mb-6 w-full"
+            onPause={() => setPlaying(false)}
+            onPlay={() => setPlaying(true)}
+            onTimeUpdate={(event) => setCurrentMs(event.currentTarget.currentTime * 1000)}
+            preload="metadata"
+            src={`/api/sessions/${session.id}/audio`}
+          />
+        ) : (
+          <p className="mb-6 rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/60">
+            No recording is available for this session.
+          </p>
+        )}
+
+        <p className="mb-3 text-sm uppercase tracking-wide text-white/60">Transcript</p>
+        <div className="max-h-[70vh] space-y-2 overflow-y-auto rounded-xl bg-black/30 p-4">
+          {timeline.length === 0 ? (
+            <p className="text-sm text-white/50">No transcript was recorded.</p>
+          ) : (
+            timeline.map((chunk) => (
+              <article
+                key={chunk.sequence}
+                ref={(element) => {
+                  if (element) lineRefs.current.set(chunk.sequence, element);
+                  else lineRefs.current.delete(chunk.sequence);
+                }}
+                className={`cursor-pointer rounded-lg border p-3 transition-colors ${
+                  chunk.sequence === activeSequence
+                    ? "border-brand bg-brand/20"
+                    : "border-white/5 bg-white/5 hover:border-white/20"
+                }`}
+                onClick={() => seekTo(chunk)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" || event.key === " ") {
+                    event.preventDefault();
+                    seekTo(chunk);
+                  }
+                }}
+                role="button"
+                tabIndex={0}
+              >
+                <header className="mb-1 flex items-center justify-between text-xs text-white/60">
+                  <span>{formatTimestamp(chunk.startMs)}</span>
+                  <span>#{chunk.sequence}</span>
+                </header>
+                <ChunkSegments
+                  error={chunk.error}
+                  onSegmentClick={(segment) => seekTo(chunk, segment.startMs ?? 0)}
+                  segments={chunk.segments.map((segment) => ({
+                    ...segment,
+                    speakerTag: nameOf(segment)
+                  }))}
+                  speakerTag={chunk.speakerTag}
+                  status={chunk.status}
+                  text={chunk.text}
+                />
+              </article>
+            ))
+          )}
+        </div>
+      </section>
+
+      <aside className="space-y-6">
+        <section className="rounded-2xl border border-white/10 bg-white/5 p-6" id="summary">
+          <div className="mb-3 flex items-center justify-between gap-2">
+            <p className="text-sm uppercase tracking-wide text-white/60">Summary</p>
+            {session.status === "COMPLETED" || session.status === "FAILED" ? (
+              <div className="flex items-center gap-2">
+                {templates ? (
+                  <select
+                    aria-label="Summary template"
+                    className="rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs text-white"
+                    disabled={regenerate.isPending || session.summaryStatus === "GENERATING"}
+                    onChange={(event) => setTemplateChoice(event.target.value)}
+                    value={selectedTemplate}
+                  >
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+                <Button
+                  disabled={regenerate.isPending || session.summaryStatus === "GENERATING"}
+                  onClick={() => regenerate.mutate(selectedTemplate)}
+                  size="sm"
+                  variant="ghost"
+                >
+                  {regenerate.isPending || session.summaryStatus === "GENERATING"
+                    ? "Summarizing…"
+                    : session.summary
+                      ? "Regenerate"
+                      : "Summarize"}
+                </Button>
+              </div>
+            ) : null}
+          </div>
+          {session.summaryStatus === "FAILED" && session.summaryError ? (
+            <p className="mb-3 text-xs text-red-200">
+              Summarization failed: {session.summaryError}
+            </p>
+          ) : null}
+          {regenerate.error && session.summaryStatus !== "FAILED" ? (
+            <p className="mb-3 text-xs text-red-200">{regenerate.error.message}</p>
+          ) : null}
+          {session.summary?.sections.length ? (
+            <div className="space-y-4 text-sm text-white/80">
+              {session.summary.sections.map((section) => (
+                <div key={section.key}>
+                  <p className="mb-1 font-semibold text-white">{section.title}</p>
+                  <CitedText
+                    className="whitespace-pre-line"
+                    onCite={seekToSequence}
+                    text={section.content}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : session.summary ? (
+            <div className="space-y-4 text-sm text-white/80">
+              <div>
+                <p className="mb-1 font-semibold text-white">Key points</p>
+                <CitedText
+                  className="whitespace-pre-line"
+                  onCite={seekToSequence}
+                  text={session.summary.keyPoints}
+                />
+              </div>
+              <div>
+                <p className="mb-1 font-semibold text-white">Action items</p>
+                <CitedText
+                  className="whitespace-pre-line"
+                  onCite={seekToSequence}
+                  text={session.summary.actionItems}
+                />
+              </div>
+              <div>
+                <p className="mb-1 font-semibold text-white">Decisions</p>
+                <CitedText
+                  className="whitespace-pre-line"
+                  onCite={seekToSequence}
+                  text={session.summary.decisions}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-white/50">No summary for this session.</p>
+          )}
+        </section>
+
+        {session.summary && session.summaryVersions.length > 1 ? (
+          <SummaryHistory
+            currentVersion={session.summary.version}
+            sessionId={session.id}
+            versions={session.summaryVersions}
+          />
+        ) : null}
+
+        <section className="rounded-2xl border border-white/10 bg-white/5 p-6">
+          <p className="mb-3 text-sm uppercase tracking-wide text-white/60">Speakers</p>
+          {session.speakers.length === 0 ? (
+            <p className="text-sm text-white/50">No speakers detected.</p>
+          ) : (
+            <ul className="space-y-3 text-sm text-white/80">
+              {session.speakers.map((speaker) => (
+                <SpeakerRow
+                  key={speaker.id}
+                  sessionId={session.id}
+                  speaker={speaker}
+                  talkTime={talkTime.get(speaker.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </section>
+      </aside>
+    </div>
+  );
+}
+
+/** The session's tags as chips, with an inline form to add or remove them. */
+function SessionTags({ sessionId, tags }: { sessionId: string; tags: string[] }) {
+  const update = useUpdateSessionTags(sessionId);
+  const [tag, setTag] = useState("");
+
+  // Failures are shown through update.error
+  const add = (event: FormEvent) => {
+    event.preventDefault();
+    if (!tag.trim()) return;
+    update.mutate([...tags, tag], { onSuccess: () => setTag("") });
+  };
+
+  return (
+    <div className="space-y-1">
+      <form className="flex flex-wrap items-center gap-2 text-xs" onSubmit={add}>
+        {tags.map((value) => (
+          <span key={value} className="rounded-full bg-white/10 px-2 py-0.5 text-white/70">
+            #{value}{" "}
+            <button
+              aria-label={`Remove tag ${value}`}
+              className="text-white/40 hover:text-white"
+              disabled={update.isPending}
+              onClick={() => update.mutate(tags.filter((other) => other !== value))}
+              type="button"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="w-28 rounded-lg border border-white/10 bg-black/30 px-2 py-0.5 text-white"
+          maxLength={32}
+          onChange={(event) => setTag(event.target.value)}
+          placeholder="Add tag"
+          value={tag}
+        />
+      </form>
+      {update.error ? <p className="text-xs text-red-200">{update.error.message}</p> : null}
+    </div>
+  );
+}
+
+type SpeakerRowProps = {
+  sessionId: string;
+  speaker: SpeakerRecord;
+  talkTime?: { turns: number; ms: number };
+};
+
+/** One speaker with their talk time and an inline rename form. */
+function SpeakerRow({ sessionId, speaker, talkTime }: SpeakerRowProps) {
+  const rename = useRenameSpeakers(sessionId);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(speaker.name ?? "");
+
+  // Failures are shown through rename.error
+  const save = (event: FormEvent) => {
+    event.preventDefault();
+    rename.mutate([{ label: speaker.label, name: name.trim() || null }], {
+      onSuccess: () => setEditing(false)
+    });
+  };
+
+  return (
+    <li className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <span className="font-semibold text-white">{speaker.name || speaker.label}</span>
+          {speaker.name ? (
+            <span className="ml-2 text-xs text-white/40">{speaker.label}</span>
+          ) : null}
+        </div>
+        <button
+          className="text-xs text-white/60 hover:text-white"
+          onClick={() => setEditing((value) => !value)}
+          type="button"
+        >
+          {editing ? "Cancel" : "Rename"}
+        </button>
+      </div>
+      {talkTime ? (
+        <p className="text-xs text-white/50">
+          {formatTimestamp(talkTime.ms)} · {talkTime.turns}{" "}
+          {talkTime.turns === 1 ? "turn" : "turns"}
+        </p>
+      ) : null}
+      {editing ? (
+        <form className="flex gap-2" onSubmit={save}>
+          <input
+            className="flex-1 rounded-lg border border-white/10 bg-black/30 px-3 py-1 text-sm text-white"
+            onChange={(event) => setName(event.target.value)}
+            placeholder={speaker.label}
+            value={name}
+          />
+          <Button disabled={rename.isPending} size="sm" type="submit">
+            Save
+          </Button>
+        </form>
+      ) : null}
+      {rename.error ? <p className="text-xs text-red-200">{rename.error.message}</p> : null}
+    </li>
+  );
+}
+
+const DIFF_STYLES: Record<SummaryDiffLine["type"], string> = {
+  same: "text-white/60",
+  added: "bg-emerald-500/10 text-emerald-200",
+  removed: "bg-red-500/10 text-red-200 line-through"
+};
+
+function describeVersion(version: SummaryVersionMeta) {
+  const origin =
+    version.source === "GENERATED"
+      ? `Generated${version.model ? ` with ${version.model}` : ""}`
+      : version.source === "EDITED"
+        ? "Edited"
+        : `Restored from v${version.restoredFrom}`;
+  const author = version.createdBy?.name || version.createdBy?.email;
+  return author ? `${origin} by ${author}` : origin;
+}
+
+type SummaryHistoryProps = {
+  sessionId: string;
+  versions: SummaryVersionMeta[];
+  currentVersion: number;
+};
+
+/** Summary versions; earlier ones can be compared with the current one and restored. */
+function SummaryHistory({ sessionId, versions, currentVersion }: SummaryHistoryProps) {
+  const [comparing, setComparing] = useState<number | null>(null);
+  const diff = useSummaryDiff(sessionId, comparing);
+  const restore = useRestoreSummaryVersion(sessionId);
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-white/5 p-6">
+      <p className="mb-3 text-sm uppercase tracking-wide text-white/60">Summary history</p>
+      <ul className="space-y-2 text-sm text-white/80">
+        {versions.map((version) => (
+          <li key={version.version} className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-white">
+                v{version.version}
+                {version.version === currentVersion ? (
+                  <span className="ml-2 text-xs font-normal text-emerald-200">current</span>
+                ) : null}
+              </p>
+              <p className="text-xs text-white/50">
+                {describeVersion(version)} · {new Date(version.createdAt).toLocaleString()}
+              </p>
+            </div>
+            {version.version === currentVersion ? null : (
+              <div className="flex gap-2">
+                <button
+                  className="text-xs text-white/60 hover:text-white"
+                  onClick={() =>
+                    setComparing((value) => (value === version.version ? null : version.version))
+                  }
+                  type="button"
+                >
+                  {comparing === version.version ? "Hide" : "Compare"}
+                </button>
+                <button
+                  className="text-xs text-white/60 hover:text-white disabled:opacity-50"
+                  disabled={restore.isPending}
+                  onClick={() => {
+                    setComparing(null);
+                    restore.mutate(version.version);
+                  }}
+                  type="button"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {restore.error ? <p className="mt-3 text-xs text-red-200">{restore.error.message}</p> : null}
+      {comparing !== null ? (
+        <div className="mt-4 space-y-3 text-xs">
+          <p className="text-white/50">
+            Changes from v{comparing} to the current summary
+          </p>
+          {diff.error ? <p className="text-red-200">{diff.error.message}</p> : null}
+          {diff.data?.sections.map((section) => (
+            <div key={section.key}>
+              <p className="mb-1 font-semibold text-white">{section.title}</p>
+              {section.changes.map((line, index) => (
+                <p key={index} className={`whitespace-pre-wrap px-1 ${DIFF_STYLES[line.type]}`}>
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                  {line.text}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -1,10 +1,18 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
 import { v4 as uuidv4 } from 'uuid';
 
+import { SessionHistory } from "@/components/sessions/session-history";
+import { SessionSearch } from "@/components/sessions/session-search";
+import { ChunkSegments } from "@/components/transcript/chunk-segments";
 import { Button } from "@/components/ui/button";
 import { useRecorderMachine } from "@/hooks/useRecorderMachine";
+import { useSessionExpiry } from "@/hooks/useSessionExpiry";
+import { useSummaryTemplates } from "@/hooks/useSummaryTemplates";
+import { signOut, useSession } from "@/lib/auth-client";
 import { RecordingSource } from "@/types/session";
 
 const SOURCE_LABELS: Record<RecordingSource, string> = {
@@ -16,43 +24,63 @@ const STATUS_COLORS: Record<string, string> = {
   IDLE: "bg-white/10 text-white",
   RECORDING: "bg-green-500/20 text-green-300",
   PAUSED: "bg-yellow-500/20 text-yellow-200",
+  RECONNECTING: "bg-orange-500/20 text-orange-200",
   PROCESSING: "bg-blue-500/20 text-blue-200",
   COMPLETED: "bg-emerald-500/20 text-emerald-200",
   FAILED: "bg-red-500/20 text-red-200"
 };
 
-type SessionHistory = {
-  id: string;
-  status: string;
-  source: string;
-  startedAt: string;
-  endedAt?: string;
-  summary?: {
-    keyPoints: string;
-    actionItems: string;
-    decisions: string;
-  };
-  transcript?: Array<{
-    text: string;
-    sequence: number;
-  }>;
-};
+type DashboardUser = { id: string; email: string };
 
 export default function SessionsPage() {
-  const [history, setHistory] = useState<SessionHistory[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { data: authSession, isPending } = useSession();
+  const [user, setUser] = useState<DashboardUser | null>(null);
+
+  // Keep the first signed-in user for the lifetime of the page: if the login
+  // expires mid-recording the dashboard must stay mounted, not lose the meeting
+  useEffect(() => {
+    if (authSession?.user && !user) {
+      setUser({ id: authSession.user.id, email: authSession.user.email });
+    }
+  }, [authSession, user]);
+
+  useEffect(() => {
+    if (!isPending && !authSession && !user) {
+      router.replace("/login?from=/sessions");
+    }
+  }, [authSession, isPending, router, user]);
+
+  if (!user) {
+    return (
+      <p className="px-6 py-10 text-sm text-white/50">Loading…</p>
+    );
+  }
 
-  const recorder = useRecorderMachine({
-    // TODO: wire Better Auth user context
-    user: { id: "demo-user", email: "demo@scribe.ai" }
-  });
+  return <SessionsDashboard user={user} />;
+}
+
+function SessionsDashboard({ user }: { user: DashboardUser }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [templateId, setTemplateId] = useState("meeting");
+  const [importError, setImportError] = useState<string | null>(null);
+  const { data: templates } = useSummaryTemplates();
+  const { expired: loginExpired } = useSessionExpiry();
+
+  const recorder = useRecorderMachine({ user });
   
   const {
     status,
     source,
     sessionId,
+    pendingChunks,
+    queueStatus,
+    authRequired,
+    retryConnection,
     transcript = [],
     summary,
+    liveSummary,
     error,
     startRecording,
     pauseRecording,
@@ -65,31 +93,50 @@ export default function SessionsPage() {
   const isRecording = status === 'RECORDING';
   const isPaused = status === 'PAUSED';
   const isProcessing = status === 'PROCESSING';
+  const isLive = isRecording || isPaused || status === 'RECONNECTING' || isProcessing;
+  const showExpiryWarning = loginExpired || authRequired;
 
+  // Signed in again (e.g. in another tab): reconnect the rejected socket
   useEffect(() => {
-    // Fetch session history
-    const fetchHistory = async () => {
-      try {
-        const response = await fetch("/api/sessions?userId=demo-user");
-        const data = await response.json();
-        if (data.sessions) {
-          setHistory(data.sessions);
-        }
-      } catch (err) {
-        // eslint-disable-next-line no-console
-        console.error("Failed to fetch sessions:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!loginExpired && authRequired) {
+      retryConnection();
+    }
+  }, [authRequired, loginExpired, retryConnection]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/login");
+    router.refresh();
+  };
 
-    fetchHistory();
-  }, [status]); // Refetch when status changes
+  // Recording state changes create and finish sessions
+  useEffect(() => {
+    void queryClient.invalidateQueries({ queryKey: ["sessions"] });
+  }, [queryClient, status]);
+
+  /** Uploads a JSON export and opens the recreated session. */
+  const importSession = async (file: File) => {
+    setImportError(null);
+    try {
+      const response = await fetch("/api/sessions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text()
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to import session");
+      }
+      router.push(`/sessions/${data.sessionId}`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Failed to import session");
+    }
+  };
 
   const controls = useMemo(() => {
     const handleStart = async () => {
       // The session ID will be generated and handled by the useRecorderMachine hook
-      startRecording(source as RecordingSource);
+      startRecording(source as RecordingSource, templateId);
     };
 
     switch (status) {
@@ -113,6 +160,17 @@ export default function SessionsPage() {
             </Button>
           </>
         );
+      case "RECONNECTING":
+        return (
+          <>
+            <Button disabled variant="ghost">
+              Reconnecting…
+            </Button>
+            <Button onClick={stopRecording} variant="danger">
+              Stop
+            </Button>
+          </>
+        );
       case "PROCESSING":
         return (
           <Button disabled variant="ghost">
@@ -146,19 +204,40 @@ export default function SessionsPage() {
     source,
     startRecording,
     status,
-    stopRecording
+    stopRecording,
+    templateId
   ]);
 
-  const formatDuration = (startedAt: string, endedAt?: string) => {
-    if (!endedAt) return "In progress";
-    const start = new Date(startedAt);
-    const end = new Date(endedAt);
-    const minutes = Math.floor((end.getTime() - start.getTime()) / 60000);
-    return `${minutes}m`;
-  };
-
   return (
     <div className="mx-auto grid max-w-6xl gap-8 px-6 py-10 md:grid-cols-[400px,1fr]">
+      <div className="flex items-center justify-between gap-4 md:col-span-2">
+        <p className="text-sm text-white/60">Signed in as {user.email}</p>
+        <Button
+          disabled={isLive}
+          onClick={handleSignOut}
+          size="sm"
+          title={isLive ? "Stop the recording before signing out" : undefined}
+          variant="ghost"
+        >
+          Sign out
+        </Button>
+      </div>
+
+      {showExpiryWarning ? (
+        <p className="rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-4 py-3 text-sm text-yellow-100 md:col-span-2">
+          Your sign-in has expired. {isLive ? "Recording continues and audio is kept on this device. " : ""}
+          <a
+            className="font-semibold underline"
+            href="/login?from=/sessions"
+            rel="noopener noreferrer"
+            target="_blank"
+          >
+            Sign in again in a new tab
+          </a>{" "}
+          and uploads will resume automatically.
+        </p>
+      ) : null}
+
       <section className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20">
         <header className="mb-6 space-y-2">
           <p className="text-sm uppercase tracking-wide text-white/60">Status</p>
@@ -190,14 +269,90 @@ export default function SessionsPage() {
           </div>
         </div>
 
+        <div className="mb-8 space-y-3">
+          <label className="block text-sm text-white/70" htmlFor="summary-template">
+            Summary template
+          </label>
+          <select
+            className="w-full rounded-lg border border-white/10 bg-black/30 px-3 py-2 text-sm text-white"
+            disabled={status !== "IDLE"}
+            id="summary-template"
+            onChange={(event) => setTemplateId(event.target.value)}
+            value={templateId}
+          >
+            {templates ? (
+              templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                  {template.builtIn ? "" : " (custom)"}
+                </option>
+              ))
+            ) : (
+              <option value="meeting">Meeting</option>
+            )}
+          </select>
+        </div>
+
         <div className="flex flex-wrap gap-3">{controls}</div>
 
+        {queueStatus && queueStatus.queued + queueStatus.inFlight > 0 ? (
+          <p
+            className={`mt-4 rounded-lg border px-4 py-2 text-sm ${
+              queueStatus.backpressure
+                ? "border-orange-500/30 bg-orange-500/10 text-orange-100"
+                : "border-white/10 bg-white/5 text-white/70"
+            }`}
+          >
+            Transcription: {queueStatus.inFlight} in progress, {queueStatus.queued} queued
+            {queueStatus.backpressure ? " — server is busy, uploads are throttled" : ""}
+          </p>
+        ) : null}
+
+        {pendingChunks > 0 ? (
+          <p className="mt-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-4 py-2 text-sm text-yellow-100">
+            {pendingChunks} {pendingChunks === 1 ? "chunk" : "chunks"} waiting to upload.
+            Audio is kept locally and retried when the connection returns.
+          </p>
+        ) : null}
+
         {error ? (
           <p className="mt-4 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-2 text-sm text-red-200">
             {error}
           </p>
         ) : null}
 
+        {liveSummary && !summary ? (
+          <div className="mt-6 space-y-3 rounded-xl border border-sky-500/30 bg-sky-500/10 p-4 text-sm text-sky-100">
+            <div className="flex items-center justify-between text-xs text-sky-200">
+              <p className="uppercase tracking-wide">So far</p>
+              <p>
+                Up to chunk #{liveSummary.throughSequence} ·{" "}
+                {new Date(liveSummary.generatedAt).toLocaleTimeString()}
+              </p>
+            </div>
+            {liveSummary.summary.sections.length ? (
+              liveSummary.summary.sections.map((section) => (
+                <div key={section.key}>
+                  <p className="text-xs font-semibold text-sky-200">{section.title}</p>
+                  <p className="whitespace-pre-line">{section.content}</p>
+                </div>
+              ))
+            ) : (
+              <>
+                <p className="whitespace-pre-line">{liveSummary.summary.keyPoints}</p>
+                <div>
+                  <p className="text-xs font-semibold text-sky-200">Action items</p>
+                  <p className="whitespace-pre-line">{liveSummary.summary.actionItems}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-semibold text-sky-200">Decisions</p>
+                  <p className="whitespace-pre-line">{liveSummary.summary.decisions}</p>
+                </div>
+              </>
+            )}
+          </div>
+        ) : null}
+
         {summary ? (
           <div className="mt-6 space-y-2 rounded-xl border border-emerald-500/30 bg-emerald-500/10 p-4 text-sm text-emerald-100">
             <p className="text-xs uppercase tracking-wide text-emerald-200">
@@ -233,11 +388,16 @@ export default function SessionsPage() {
                 key={chunk.sequence}
                 className="rounded-lg border border-white/5 bg-white/5 p-3"
               >
-                <header className="mb-2 flex items-center justify-between text-xs text-white/60">
-                  <span className="font-semibold text-white">{chunk.speakerTag}</span>
+                <header className="mb-2 flex items-center justify-end text-xs text-white/60">
                   <span>#{chunk.sequence}</span>
                 </header>
-                <p className="text-sm leading-relaxed text-white/90">{chunk.text}</p>
+                <ChunkSegments
+                  error={chunk.error}
+                  segments={chunk.segments ?? []}
+                  speakerTag={chunk.speakerTag}
+                  status={chunk.status}
+                  text={chunk.text}
+                />
               </article>
             ))
           )}
@@ -250,48 +410,35 @@ export default function SessionsPage() {
             <p className="text-sm uppercase tracking-wide text-white/60">History</p>
             <h2 className="text-2xl font-semibold text-white">Recent sessions</h2>
           </div>
-          <Button variant="ghost">View all sessions</Button>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer rounded-lg px-4 py-2 text-sm text-white/70 hover:text-white">
+              Import
+              <input
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = "";
+                  if (file) void importSession(file);
+                }}
+                type="file"
+              />
+            </label>
+            <Button variant="ghost">View all sessions</Button>
+          </div>
         </header>
 
-        {loading ? (
-          <p className="text-sm text-white/50">Loading sessions...</p>
-        ) : (
-          <div className="space-y-4">
-            {history.length === 0 ? (
-              <p className="text-sm text-white/50">No sessions yet. Start recording to create one!</p>
-            ) : (
-              history.map((session) => (
-                <div
-                  key={session.id}
-                  className="rounded-xl border border-white/5 bg-white/5 p-4 text-white/80"
-                >
-                  <div className="flex flex-wrap items-center justify-between gap-4">
-                    <div>
-                      <p className="font-semibold text-white">
-                        Session {session.id.slice(0, 8)}
-                      </p>
-                      {session.summary ? (
-                        <p className="text-sm text-white/60">
-                          {session.summary.keyPoints.slice(0, 100)}...
-                        </p>
-                      ) : (
-                        <p className="text-sm text-white/60">
-                          {session.transcript?.[0]?.text.slice(0, 100) || "No transcript yet"}...
-                        </p>
-                      )}
-                    </div>
-                    <div className="text-right text-sm text-white/60">
-                      <p>{formatDuration(session.startedAt, session.endedAt)}</p>
-                      <p className={`${STATUS_COLORS[session.status]}`}>
-                        {session.status}
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
-        )}
+        <div className="mb-6">
+          <SessionSearch />
+        </div>
+
+        {importError ? (
+          <p className="mb-4 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-2 text-sm text-red-200">
+            {importError}
+          </p>
+        ) : null}
+
+        <SessionHistory />
       </section>
     </div>
   );
@@ -0,0 +1,227 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { useSessionList } from "@/hooks/useSessionList";
+import { formatTimestamp } from "@/lib/timeline";
+import type { SessionListFilters, SessionListItem } from "@/types/session";
+
+const STATUS_COLORS: Record<string, string> = {
+  RECORDING: "bg-green-500/20 text-green-300",
+  PAUSED: "bg-yellow-500/20 text-yellow-200",
+  PROCESSING: "bg-blue-500/20 text-blue-200",
+  COMPLETED: "bg-emerald-500/20 text-emerald-200",
+  FAILED: "bg-red-500/20 text-red-200"
+};
+
+const SORTS = {
+  newest: { label: "Newest first", sort: "startedAt", order: "desc" },
+  oldest: { label: "Oldest first", sort: "startedAt", order: "asc" },
+  longest: { label: "Longest first", sort: "durationMs", order: "desc" },
+  shortest: { label: "Shortest first", sort: "durationMs", order: "asc" }
+} as const;
+
+type SortKey = keyof typeof SORTS;
+
+const inputClass = "rounded-lg border border-white/10 bg-black/30 px-3 py-2 text-sm text-white";
+
+/** A `yyyy-mm-dd` date input value as the start or end of that local day. */
+function dayBoundary(day: string, end: boolean) {
+  return day ? new Date(`${day}T${end ? "23:59:59.999" : "00:00:00"}`).toISOString() : undefined;
+}
+
+function SessionRow({
+  onTag,
+  session
+}: {
+  onTag: (tag: string) => void;
+  session: SessionListItem;
+}) {
+  return (
+    <div className="rounded-xl border border-white/5 bg-white/5 p-4 text-white/80">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <Link
+            className="font-semibold text-white hover:underline"
+            href={`/sessions/${session.id}`}
+          >
+            Session {session.id.slice(0, 8)}
+          </Link>
+          <p className="text-xs text-white/50">
+            {new Date(session.startedAt).toLocaleString()} ·{" "}
+            {session.source === "TAB" ? "Browser tab" : "Microphone"}
+          </p>
+          <p className="text-sm text-white/60">{session.preview ?? "No transcript yet"}</p>
+          {session.tags.length ? (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {session.tags.map((tag) => (
+                <button
+                  key={tag}
+                  className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-white/70 hover:bg-white/20"
+                  onClick={() => onTag(tag)}
+                  type="button"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          ) : null}
+        </div>
+        <div className="text-right text-sm text-white/60">
+          <p>{session.durationMs === null ? "In progress" : formatTimestamp(session.durationMs)}</p>
+          <p className={`${STATUS_COLORS[session.status]}`}>{session.status}</p>
+        </div>
+      </div>
+      {session.interruptionAt ? (
+        <p className="mt-3 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-3 py-2 text-xs text-yellow-100">
+          This session was interrupted at {new Date(session.interruptionAt).toLocaleString()}
+          {session.statusReason ? ` — ${session.statusReason}` : ""}
+        </p>
+      ) : session.status === "FAILED" && session.statusReason ? (
+        <p className="mt-3 text-xs text-red-200">{session.statusReason}</p>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * The user's sessions with filters and sort options. Further pages load as
+ * the end of the list scrolls into view.
+ */
+export function SessionHistory() {
+  const [status, setStatus] = useState("");
+  const [source, setSource] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [tag, setTag] = useState("");
+  const [minMinutes, setMinMinutes] = useState("");
+  const [sort, setSort] = useState<SortKey>("newest");
+
+  const filters = useMemo<SessionListFilters>(
+    () => ({
+      status: (status || undefined) as SessionListFilters["status"],
+      source: (source || undefined) as SessionListFilters["source"],
+      from: dayBoundary(from, false),
+      to: dayBoundary(to, true),
+      tag: tag.trim() || undefined,
+      minDurationMs: minMinutes ? Math.round(Number(minMinutes) * 60000) : undefined,
+      sort: SORTS[sort].sort,
+      order: SORTS[sort].order
+    }),
+    [from, minMinutes, sort, source, status, tag, to]
+  );
+
+  const { data, error, fetchNextPage, hasNextPage, isFetchingNextPage, isPending } =
+    useSessionList(filters);
+  const sessions = data?.pages.flatMap((page) => page.sessions) ?? [];
+  const filtered = Boolean(status || source || from || to || tag.trim() || minMinutes);
+
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        void fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <select
+          aria-label="Status"
+          className={inputClass}
+          onChange={(event) => setStatus(event.target.value)}
+          value={status}
+        >
+          <option value="">Any status</option>
+          {Object.keys(STATUS_COLORS).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Source"
+          className={inputClass}
+          onChange={(event) => setSource(event.target.value)}
+          value={source}
+        >
+          <option value="">Any source</option>
+          <option value="MIC">Microphone</option>
+          <option value="TAB">Browser tab</option>
+        </select>
+        <input
+          aria-label="From"
+          className={inputClass}
+          max={to || undefined}
+          onChange={(event) => setFrom(event.target.value)}
+          type="date"
+          value={from}
+        />
+        <input
+          aria-label="To"
+          className={inputClass}
+          min={from || undefined}
+          onChange={(event) => setTo(event.target.value)}
+          type="date"
+          value={to}
+        />
+        <input
+          aria-label="Tag"
+          className={`${inputClass} w-32`}
+          onChange={(event) => setTag(event.target.value)}
+          placeholder="Tag"
+          value={tag}
+        />
+        <input
+          aria-label="Minimum length in minutes"
+          className={`${inputClass} w-28`}
+          min={0}
+          onChange={(event) => setMinMinutes(event.target.value)}
+          placeholder="Min. minutes"
+          type="number"
+          value={minMinutes}
+        />
+        <select
+          aria-label="Sort"
+          className={inputClass}
+          onChange={(event) => setSort(event.target.value as SortKey)}
+          value={sort}
+        >
+          {Object.entries(SORTS).map(([value, option]) => (
+            <option key={value} value={value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? <p className="text-sm text-red-200">{error.message}</p> : null}
+
+      {isPending ? (
+        <p className="text-sm text-white/50">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-white/50">
+          {filtered
+            ? "No sessions match these filters."
+            : "No sessions yet. Start recording to create one!"}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map((session) => (
+            <SessionRow key={session.id} onTag={setTag} session={session} />
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} />
+      {isFetchingNextPage ? <p className="text-sm text-white/50">Loading more…</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+
+import { useSessionSearch } from "@/hooks/useSessionSearch";
+import type { SearchResult } from "@/types/session";
+
+/** Where a hit opens: the matching chunk of the transcript, or the summary. */
+function resultHref(result: SearchResult) {
+  return result.sequence === null
+    ? `/sessions/${result.sessionId}#summary`
+    : `/sessions/${result.sessionId}?chunk=${result.sequence}`;
+}
+
+/**
+ * Search box over all of the user's transcripts and summaries. Each hit
+ * shows its highlighted snippet and links to the moment it was said.
+ */
+export function SessionSearch() {
+  const [query, setQuery] = useState("");
+  const { data: results, error, isFetching } = useSessionSearch(query);
+  const active = query.trim().length > 0;
+
+  return (
+    <div className="space-y-3">
+      <input
+        className="w-full rounded-lg border border-white/10 bg-black/30 px-3 py-2 text-sm text-white"
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search transcripts and summaries"
+        type="search"
+        value={query}
+      />
+      {active && error ? <p className="text-sm text-red-200">{error.message}</p> : null}
+      {active && results ? (
+        results.length === 0 ? (
+          <p className="text-sm text-white/50">{isFetching ? "Searching…" : "No matches."}</p>
+        ) : (
+          <ul className="space-y-2">
+            {results.map((result) => (
+              <li key={`${result.sessionId}:${result.sequence ?? "summary"}`}>
+                <Link
+                  className="block rounded-lg border border-white/5 bg-white/5 p-3 hover:border-white/20"
+                  href={resultHref(result)}
+                >
+                  <p className="mb-1 text-xs text-white/50">
+                    Session {result.sessionId.slice(0, 8)} ·{" "}
+                    {new Date(result.sessionStartedAt).toLocaleString()} ·{" "}
+                    {result.sequence === null ? "Summary" : `Chunk #${result.sequence}`}
+                  </p>
+                  <p className="text-sm text-white/80">
+                    {result.snippet.map((part, index) =>
+                      part.match ? (
+                        <mark key={index} className="rounded bg-brand/30 px-0.5 text-white">
+                          {part.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { ChunkStatus } from "@/types/session";
+
+type SegmentLike = {
+  speakerTag: string;
+  text: string;
+  startMs?: number | null;
+};
+
+type ChunkSegmentsProps = {
+  status: ChunkStatus;
+  error?: string | null;
+  /** Chunk-level text and speaker, shown for chunks stored before segments. */
+  text: string;
+  speakerTag: string;
+  segments: SegmentLike[];
+  /** Makes each speaker turn clickable, e.g. to seek the audio player. */
+  onSegmentClick?: (segment: SegmentLike) => void;
+};
+
+/**
+ * Body of one transcript chunk: one line per speaker turn, or a notice when
+ * the chunk could not be transcribed.
+ */
+export function ChunkSegments({
+  status,
+  error,
+  text,
+  speakerTag,
+  segments,
+  onSegmentClick
+}: ChunkSegmentsProps) {
+  if (status !== "TRANSCRIBED") {
+    return (
+      <p
+        className={`text-sm italic ${status === "FAILED" ? "text-red-300" : "text-yellow-200"}`}
+        title={error ?? undefined}
+      >
+        {status === "FAILED"
+          ? "Transcription failed for this chunk."
+          : "Skipped: the transcription provider was unavailable."}
+      </p>
+    );
+  }
+
+  const lines: SegmentLike[] = segments.length > 0 ? segments : text ? [{ speakerTag, text }] : [];
+  if (lines.length === 0) {
+    return <p className="text-sm italic text-white/40">(silence)</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {lines.map((segment, index) => (
+        <p
+          key={index}
+          className={`text-sm leading-relaxed text-white/90 ${
+            onSegmentClick ? "cursor-pointer rounded hover:bg-white/10" : ""
+          }`}
+          onClick={
+            onSegmentClick
+              ? (event) => {
+                  event.stopPropagation();
+                  onSegmentClick(segment);
+                }
+              : undefined
+          }
+        >
+          <span className="mr-2 text-xs font-semibold text-brand">{segment.speakerTag}</span>
+          {segment.text}
+        </p>
+      ))}
+    </div>
+  );
+}
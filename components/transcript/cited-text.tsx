@@ -0,0 +1,48 @@
+import type { ReactNode } from "react";
+
+type CitedTextProps = {
+  text: string;
+  /** Called with the chunk sequence of a clicked "[#n]" citation. */
+  onCite: (sequence: number) => void;
+  className?: string;
+};
+
+const CITATION_PATTERN = /\[(#\d+(?:,\s*#\d+)*)\]/g;
+
+/**
+ * Summary text with its chunk citations ("[#4, #9]") rendered as links that
+ * jump to the cited part of the recording.
+ */
+export function CitedText({ text, onCite, className }: CitedTextProps) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    const start = match.index ?? 0;
+    parts.push(text.slice(last, start));
+    const sequences = match[1].split(",").map((ref) => Number(ref.trim().slice(1)));
+    parts.push(
+      <span key={start} className="text-white/50">
+        [
+        {sequences.map((sequence, index) => (
+          <span key={sequence}>
+            {index > 0 ? ", " : null}
+            <button
+              className="text-brand hover:underline"
+              onClick={() => onCite(sequence)}
+              title={`Jump to chunk #${sequence}`}
+              type="button"
+            >
+              #{sequence}
+            </button>
+          </span>
+        ))}
+        ]
+      </span>
+    );
+    last = start + match[0].length;
+  }
+  parts.push(text.slice(last));
+
+  return <p className={className}>{parts}</p>;
+}
@@ -6,11 +6,19 @@ import { useMachine } from "@xstate/react";
 import { Socket } from "socket.io-client";
 import { assign, createMachine } from "xstate";
 
+import { ChunkOutbox, createChunkOutbox } from "@/lib/chunk-outbox";
+import { ChunkTiming, createMediaClock } from "@/lib/media-clock";
 import { createSocket } from "@/lib/socket-client";
 import {
+  ChunkAck,
+  ChunkPayload,
+  QueueStatus,
   RecordingSource,
+  RejoinAck,
+  ServerSessionStatus,
   SessionStatus,
   SessionSummary,
+  SummaryPartial,
   TranscriptUpdate
 } from "@/types/session";
 
@@ -19,7 +27,11 @@ type RecorderContext = {
   source: RecordingSource;
   transcript: TranscriptUpdate[];
   summary?: SessionSummary;
+  /** Rolling summary of the meeting so far, replaced by `summary` on stop. */
+  liveSummary?: SummaryPartial;
   error?: string;
+  /** Where to return once a dropped connection has rejoined the session. */
+  resumeTo: "recording" | "paused";
 };
 
 type RecorderEvent =
@@ -30,14 +42,37 @@ type RecorderEvent =
   | { type: "RESET" }
   | { type: "TRANSCRIPT"; update: TranscriptUpdate }
   | { type: "SUMMARY"; summary: SessionSummary }
+  | { type: "SUMMARY_PARTIAL"; partial: SummaryPartial }
   | { type: "ERROR"; error: string }
-  | { type: "SET_SOURCE"; source: RecordingSource };
+  | { type: "SET_SOURCE"; source: RecordingSource }
+  | { type: "DISCONNECTED" }
+  | {
+      type: "REJOINED";
+      status: ServerSessionStatus;
+      summary: SessionSummary | null;
+    };
 
 const defaultContext: RecorderContext = {
   source: "MIC",
-  transcript: []
+  transcript: [],
+  resumeTo: "recording"
 };
 
+function mergeTranscript(
+  transcript: TranscriptUpdate[],
+  update: TranscriptUpdate
+): TranscriptUpdate[] {
+  const existingIndex = transcript.findIndex(
+    (chunk) => chunk.sequence === update.sequence
+  );
+  if (existingIndex >= 0) {
+    const next = [...transcript];
+    next[existingIndex] = update;
+    return next;
+  }
+  return [...transcript, update].sort((a, b) => a.sequence - b.sequence);
+}
+
 const recorderMachine = createMachine({
   id: "recorder",
   context: defaultContext,
@@ -61,6 +96,7 @@ const recorderMachine = createMachine({
             source: ({ event }) => event.source,
             transcript: () => [],
             summary: () => undefined,
+            liveSummary: () => undefined,
             error: () => undefined
           })
         }
@@ -70,21 +106,17 @@ const recorderMachine = createMachine({
       on: {
         TRANSCRIPT: {
           actions: assign({
-            transcript: ({ context, event }) => {
-              const existingIndex = context.transcript.findIndex(
-                (chunk) => chunk.sequence === event.update.sequence
-              );
-              if (existingIndex >= 0) {
-                const next = [...context.transcript];
-                next[existingIndex] = event.update;
-                return next;
-              }
-              return [...context.transcript, event.update].sort(
-                (a, b) => a.sequence - b.sequence
-              );
-            }
+            transcript: ({ context, event }) =>
+              mergeTranscript(context.transcript, event.update)
           })
         },
+        SUMMARY_PARTIAL: {
+          actions: assign({ liveSummary: ({ event }) => event.partial })
+        },
+        DISCONNECTED: {
+          target: "reconnecting",
+          actions: assign({ resumeTo: () => "recording" as const })
+        },
         PAUSE: { target: "paused" },
         STOP: { target: "processing" },
         ERROR: {
@@ -97,6 +129,19 @@ const recorderMachine = createMachine({
     },
     paused: {
       on: {
+        TRANSCRIPT: {
+          actions: assign({
+            transcript: ({ context, event }) =>
+              mergeTranscript(context.transcript, event.update)
+          })
+        },
+        SUMMARY_PARTIAL: {
+          actions: assign({ liveSummary: ({ event }) => event.partial })
+        },
+        DISCONNECTED: {
+          target: "reconnecting",
+          actions: assign({ resumeTo: () => "paused" as const })
+        },
         RESUME: { target: "recording" },
         STOP: { target: "processing" },
         ERROR: {
@@ -107,8 +152,84 @@ const recorderMachine = createMachine({
         }
       }
     },
+    // The MediaRecorder keeps running; chunks wait in the outbox until the
+    // socket is back and session:rejoin has replayed what we missed
+    reconnecting: {
+      on: {
+        TRANSCRIPT: {
+          actions: assign({
+            transcript: ({ context, event }) =>
+              mergeTranscript(context.transcript, event.update)
+          })
+        },
+        SUMMARY_PARTIAL: {
+          actions: assign({ liveSummary: ({ event }) => event.partial })
+        },
+        REJOINED: [
+          {
+            guard: ({ event }) => event.status === "COMPLETED",
+            target: "completed",
+            actions: assign({
+              summary: ({ event }) => event.summary ?? undefined
+            })
+          },
+          {
+            guard: ({ event }) => event.status === "FAILED",
+            target: "failed",
+            actions: assign({
+              error: () => "Session failed while the connection was down"
+            })
+          },
+          {
+            guard: ({ event }) => event.status === "PROCESSING",
+            target: "processing"
+          },
+          {
+            guard: ({ context }) => context.resumeTo === "paused",
+            target: "paused"
+          },
+          { target: "recording" }
+        ],
+        // The recorder pauses or resumes right away; the server hears about
+        // it after the rejoin (see pendingStatusRef)
+        PAUSE: { actions: assign({ resumeTo: () => "paused" as const }) },
+        RESUME: { actions: assign({ resumeTo: () => "recording" as const }) },
+        STOP: { target: "processing" },
+        ERROR: {
+          target: "failed",
+          actions: assign({
+            error: ({ event }) => event.error
+          })
+        }
+      }
+    },
     processing: {
       on: {
+        TRANSCRIPT: {
+          actions: assign({
+            transcript: ({ context, event }) =>
+              mergeTranscript(context.transcript, event.update)
+          })
+        },
+        SUMMARY_PARTIAL: {
+          actions: assign({ liveSummary: ({ event }) => event.partial })
+        },
+        REJOINED: [
+          {
+            guard: ({ event }) => event.status === "COMPLETED",
+            target: "completed",
+            actions: assign({
+              summary: ({ event }) => event.summary ?? undefined
+            })
+          },
+          {
+            guard: ({ event }) => event.status === "FAILED",
+            target: "failed",
+            actions: assign({
+              error: () => "Failed to process summary"
+            })
+          }
+        ],
         SUMMARY: {
           target: "completed",
           actions: assign({
@@ -147,6 +268,9 @@ type UseRecorderOptions = {
 };
 
 const CHUNK_DURATION_MS = 5000; // Reduced to 5s for faster processing
+const ACK_TIMEOUT_MS = 15_000;
+const RETRY_DELAY_MS = 5_000;
+const STOP_DRAIN_TIMEOUT_MS = 30_000;
 
 export function useRecorderMachine({ user }: UseRecorderOptions) {
   const [state, send] = useMachine(recorderMachine);
@@ -156,9 +280,30 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
   const sequenceRef = useRef(0);
   const chunksRef = useRef<Blob[]>([]);
   const currentSessionIdRef = useRef<string | undefined>(undefined);
+
+  // Offline queue: chunks stay in the outbox until the server acks them
+  const outboxRef = useRef<ChunkOutbox | null>(null);
+  const sendingRef = useRef(new Set<string>());
+  const flushingRef = useRef(false);
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const emitQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingStopRef = useRef<string | null>(null);
+  // Pause/resume made while offline, sent once the session is rejoined
+  const pendingStatusRef = useRef<"session:pause" | "session:resume" | null>(null);
+
+  // Highest transcript sequence received, replayed from on session:rejoin
+  const lastSequenceRef = useRef(0);
+  const rejoinRef = useRef<() => Promise<void>>(async () => {});
   
   const [isSupported, setIsSupported] = useState<boolean>(true);
   const [browserError, setBrowserError] = useState<string | null>(null);
+  const [pendingChunks, setPendingChunks] = useState(0);
+  // Set when the socket server rejects the handshake (expired login)
+  const [authRequired, setAuthRequired] = useState(false);
+  // Server-side transcription backlog for the current session
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const backpressureRef = useRef(false);
   
   // Browser compatibility check
   useEffect(() => {
@@ -175,6 +320,8 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         return "RECORDING";
       case "paused":
         return "PAUSED";
+      case "reconnecting":
+        return "RECONNECTING";
       case "processing":
         return "PROCESSING";
       case "completed":
@@ -195,17 +342,43 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
 
     socket.on("connect", () => {
       console.log("Socket connected:", socket.id);
+      setAuthRequired(false);
+      // Get back into the session room first, then retry anything that was
+      // not acknowledged before the drop
+      void rejoinRef.current().finally(() => flushRef.current());
+    });
+
+    socket.on("connect_error", (error) => {
+      console.warn("Socket connection failed:", error.message);
+      // Middleware rejections are not retried by socket.io; wait for
+      // retryConnection() once the user has signed in again
+      if (error.message === "Unauthorized") {
+        setAuthRequired(true);
+      }
     });
 
     socket.on("disconnect", () => {
       console.log("Socket disconnected");
+      send({ type: "DISCONNECTED" });
     });
 
     socket.on("transcription:update", (payload: TranscriptUpdate) => {
       console.log("Transcription update received:", payload);
+      lastSequenceRef.current = Math.max(lastSequenceRef.current, payload.sequence);
       send({ type: "TRANSCRIPT", update: payload });
     });
 
+    socket.on("summary:partial", (payload: SummaryPartial) => {
+      if (payload.sessionId !== currentSessionIdRef.current) return;
+      send({ type: "SUMMARY_PARTIAL", partial: payload });
+    });
+
+    socket.on("session:queue", (payload: QueueStatus) => {
+      if (payload.sessionId !== currentSessionIdRef.current) return;
+      backpressureRef.current = payload.backpressure;
+      setQueueStatus(payload);
+    });
+
     socket.on(
       "session:status",
       (payload: { status: SessionStatus; summary?: SessionSummary }) => {
@@ -227,9 +400,180 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     return () => {
       socket.disconnect();
       socketRef.current = null;
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
     };
   }, [send]);
 
+  // One outbox per user so a shared browser never replays someone else's audio
+  const getOutbox = useCallback(() => {
+    if (!outboxRef.current) {
+      outboxRef.current = createChunkOutbox(user.id);
+    }
+    return outboxRef.current;
+  }, [user.id]);
+
+  const refreshPending = useCallback(async () => {
+    try {
+      setPendingChunks(await getOutbox().count());
+    } catch (error) {
+      console.error("Failed to count pending chunks:", error);
+    }
+  }, [getOutbox]);
+
+  const scheduleRetry = useCallback(() => {
+    if (retryTimerRef.current) return;
+    retryTimerRef.current = setTimeout(() => {
+      retryTimerRef.current = null;
+      void flushRef.current();
+    }, RETRY_DELAY_MS);
+  }, []);
+
+  /**
+   * Sends one queued chunk and removes it from the outbox once the server
+   * acknowledges it (or rejects it for good). Returns false when the chunk
+   * must be retried later.
+   */
+  const sendChunk = useCallback(
+    async (chunk: ChunkPayload): Promise<boolean> => {
+      const socket = socketRef.current;
+      if (!socket || !socket.connected) return false;
+
+      const key = `${chunk.sessionId}:${chunk.sequence}`;
+      if (sendingRef.current.has(key)) return false;
+      sendingRef.current.add(key);
+
+      try {
+        const ack: ChunkAck = await socket
+          .timeout(ACK_TIMEOUT_MS)
+          .emitWithAck("session:chunk", chunk);
+
+        if (ack.ok || !ack.retryable) {
+          if (!ack.ok) {
+            console.warn(`Chunk ${chunk.sequence} rejected: ${ack.error}`);
+          }
+          await getOutbox().remove(chunk.sessionId, chunk.sequence);
+          return true;
+        }
+
+        console.warn(`Chunk ${chunk.sequence} not stored, will retry: ${ack.error}`);
+        return false;
+      } catch (error) {
+        console.warn(`No ack for chunk ${chunk.sequence}, will retry:`, error);
+        return false;
+      } finally {
+        sendingRef.current.delete(key);
+        void refreshPending();
+      }
+    },
+    [getOutbox, refreshPending]
+  );
+
+  /**
+   * Re-sends every unacknowledged chunk in sequence order, then emits a
+   * session:stop that could not be delivered while offline.
+   */
+  const flushOutbox = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      const outbox = getOutbox();
+      for (const chunk of await outbox.list()) {
+        // Server is behind: hold retries back, live chunks still go out
+        if (!socketRef.current?.connected || backpressureRef.current) break;
+        await sendChunk(chunk);
+      }
+
+      const pendingStop = pendingStopRef.current;
+      if (
+        pendingStop &&
+        socketRef.current?.connected &&
+        (await outbox.count(pendingStop)) === 0
+      ) {
+        console.log('Emitting deferred session:stop to server');
+        socketRef.current.emit("session:stop", { sessionId: pendingStop });
+        pendingStopRef.current = null;
+      }
+
+      if ((await outbox.count()) > 0) {
+        scheduleRetry();
+      }
+    } catch (error) {
+      console.error("Failed to flush chunk outbox:", error);
+      scheduleRetry();
+    } finally {
+      flushingRef.current = false;
+      void refreshPending();
+    }
+  }, [getOutbox, refreshPending, scheduleRetry, sendChunk]);
+
+  useEffect(() => {
+    flushRef.current = flushOutbox;
+    void refreshPending();
+  }, [flushOutbox, refreshPending]);
+
+  /**
+   * After a reconnect the socket has a new id and is no longer in the
+   * session room. Rejoin it; the server replays missed transcript updates
+   * before acking with the current status.
+   */
+  const rejoinSession = useCallback(async () => {
+    const socket = socketRef.current;
+    const sessionId = currentSessionIdRef.current;
+    if (!socket || !socket.connected || !sessionId) return;
+
+    try {
+      const ack: RejoinAck = await socket
+        .timeout(ACK_TIMEOUT_MS)
+        .emitWithAck("session:rejoin", {
+          sessionId,
+          lastSequence: lastSequenceRef.current
+        });
+
+      if (!ack.ok) {
+        send({ type: "ERROR", error: `Could not rejoin session: ${ack.error}` });
+        return;
+      }
+
+      console.log(`Rejoined session ${sessionId}, replayed ${ack.replayed} updates`);
+      const pendingStatus = pendingStatusRef.current;
+      pendingStatusRef.current = null;
+      if (pendingStatus && (ack.status === "RECORDING" || ack.status === "PAUSED")) {
+        socket.emit(pendingStatus, { sessionId });
+      }
+      send({ type: "REJOINED", status: ack.status, summary: ack.summary });
+    } catch (error) {
+      console.warn("Rejoin not acknowledged, retrying:", error);
+      setTimeout(() => void rejoinRef.current(), RETRY_DELAY_MS);
+    }
+  }, [send]);
+
+  useEffect(() => {
+    rejoinRef.current = rejoinSession;
+  }, [rejoinSession]);
+
+  /**
+   * Waits until every chunk of the session has been acknowledged, flushing
+   * as it goes. Resolves false if the outbox is still not empty on timeout.
+   */
+  const waitForDrain = useCallback(
+    async (sessionId: string, timeoutMs: number) => {
+      const deadline = Date.now() + timeoutMs;
+      const outbox = getOutbox();
+
+      while (Date.now() < deadline) {
+        await flushOutbox();
+        if ((await outbox.count(sessionId)) === 0) return true;
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      return false;
+    },
+    [flushOutbox, getOutbox]
+  );
+
   const stopTracks = useCallback(() => {
     const stream = streamRef.current;
     if (stream) {
@@ -255,7 +599,7 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
   };
 
   const emitChunk = useCallback(
-    async (blob: Blob) => {
+    async (blob: Blob, timing: ChunkTiming) => {
       // Use ref instead of state to avoid timing issues
       const sessionId = currentSessionIdRef.current;
       
@@ -264,33 +608,34 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         return;
       }
       
-      const socket = socketRef.current;
-      if (!socket || !socket.connected) {
-        console.warn("Socket not connected, skipping chunk emission");
-        return;
-      }
-      
       sequenceRef.current += 1;
-      const endedAt = Date.now();
-      const startedAt = endedAt - CHUNK_DURATION_MS;
+      const sequence = sequenceRef.current;
 
       try {
         const audioBase64 = await blobToBase64(blob);
-        console.log(`Emitting chunk ${sequenceRef.current} for session ${sessionId}, size: ${blob.size} bytes`);
-        
-        socket.emit("session:chunk", {
+        const chunk: ChunkPayload = {
           sessionId: sessionId,
-          sequence: sequenceRef.current,
-          startedAt,
-          endedAt,
+          sequence,
+          ...timing,
           speakerTag: "speaker",
-          audio: audioBase64
-        });
+          audio: audioBase64,
+          mimeType: blob.type || "audio/webm"
+        };
+
+        // Persist first so the chunk survives a dropped socket or reload
+        await getOutbox().put(chunk);
+        void refreshPending();
+
+        console.log(`Emitting chunk ${sequence} for session ${sessionId}, size: ${blob.size} bytes`);
+        if (!(await sendChunk(chunk))) {
+          console.warn(`Chunk ${sequence} queued for retry`);
+          scheduleRetry();
+        }
       } catch (error) {
         console.error("Error emitting chunk:", error);
       }
     },
-    []
+    [getOutbox, refreshPending, scheduleRetry, sendChunk]
   );
 
   const getBrowserCompatibilityError = (): string | null => {
@@ -429,6 +774,11 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     // Reset chunks when starting new recording
     chunksRef.current = [];
 
+    // Media time excludes paused intervals, matching the assembled recording
+    const clock = createMediaClock();
+    recorder.onpause = () => clock.pause();
+    recorder.onresume = () => clock.resume();
+
     recorder.ondataavailable = async (event) => {
       console.log('Data available event, size:', event.data.size);
       
@@ -436,16 +786,21 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         chunksRef.current.push(event.data);
         console.log('Chunk added, total chunks:', chunksRef.current.length);
         
-        // Emit chunk to server
-        try {
-          await emitChunk(event.data);
-        } catch (error) {
-          console.error('Error emitting chunk:', error);
-        }
+        // Timing is taken now; emitting may lag behind the recorder
+        const blob = event.data;
+        const timing = clock.nextChunk();
+
+        // Emit chunk to server, keeping chunks in recording order
+        emitQueueRef.current = emitQueueRef.current
+          .then(() => emitChunk(blob, timing))
+          .catch((error) => {
+            console.error('Error emitting chunk:', error);
+          });
       }
     };
 
     recorder.onstart = () => {
+      clock.start();
       console.log('MediaRecorder started');
     };
 
@@ -489,7 +844,7 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
   }, [emitChunk, send]);
 
   const startRecording = useCallback(
-    async (source: RecordingSource) => {
+    async (source: RecordingSource, templateId?: string) => {
       console.log('Starting recording with source:', source);
       
       const compatibilityError = getBrowserCompatibilityError();
@@ -527,16 +882,20 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         
         // Reset sequence counter
         sequenceRef.current = 0;
+        lastSequenceRef.current = 0;
+        currentSessionIdRef.current = sessionId;
+        backpressureRef.current = false;
+        setQueueStatus(null);
         
         // Update state machine
         send({ type: "START", sessionId, source });
 
         // Emit session start to server
+        // The server derives the user from the authenticated socket
         socket.emit("session:start", {
           sessionId,
-          userId: user.id,
-          userEmail: user.email,
-          source
+          source,
+          templateId
         });
 
         // Create and start recorder
@@ -553,7 +912,7 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         send({ type: "ERROR", error: message });
       }
     },
-    [send, user.email, user.id, createRecorder]
+    [send, createRecorder]
   );
 
   const pauseRecording = useCallback(() => {
@@ -562,9 +921,13 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     const recorder = recorderRef.current;
     if (recorder && recorder.state === 'recording') {
       recorder.pause();
-      socketRef.current?.emit("session:pause", {
-        sessionId: state.context.sessionId
-      });
+      if (socketRef.current?.connected) {
+        socketRef.current.emit("session:pause", {
+          sessionId: state.context.sessionId
+        });
+      } else {
+        pendingStatusRef.current = "session:pause";
+      }
       send({ type: "PAUSE" });
       console.log('Recording paused');
     } else {
@@ -578,9 +941,13 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     const recorder = recorderRef.current;
     if (recorder && recorder.state === 'paused') {
       recorder.resume();
-      socketRef.current?.emit("session:resume", {
-        sessionId: state.context.sessionId
-      });
+      if (socketRef.current?.connected) {
+        socketRef.current.emit("session:resume", {
+          sessionId: state.context.sessionId
+        });
+      } else {
+        pendingStatusRef.current = "session:resume";
+      }
       send({ type: "RESUME" });
       console.log('Recording resumed');
     } else {
@@ -592,7 +959,6 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     console.log('Stopping recording...');
     
     const recorder = recorderRef.current;
-    const socket = socketRef.current;
     
     if (!recorder) {
       console.warn('No recorder to stop');
@@ -627,17 +993,27 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         stopped,
         new Promise(resolve => setTimeout(resolve, 3000))
       ]);
+
+      send({ type: "STOP" });
       
-      // Emit stop event to server
-      if (socket?.connected && state.context.sessionId) {
-        console.log('Emitting session:stop to server');
-        socket.emit("session:stop", {
-          sessionId: state.context.sessionId
-        });
+      // Emit stop only once every chunk is acknowledged; otherwise defer it
+      // until the outbox drains after a reconnect
+      const sessionId = state.context.sessionId;
+      if (sessionId) {
+        await emitQueueRef.current;
+        const drained = await waitForDrain(sessionId, STOP_DRAIN_TIMEOUT_MS);
+
+        if (drained && socketRef.current?.connected) {
+          console.log('Emitting session:stop to server');
+          socketRef.current.emit("session:stop", { sessionId });
+        } else {
+          console.warn('Chunks still pending, deferring session:stop until reconnect');
+          pendingStopRef.current = sessionId;
+          scheduleRetry();
+        }
       }
       
       console.log('Recording stopped successfully');
-      send({ type: "STOP" });
       
     } catch (error) {
       console.error('Error stopping recording:', error);
@@ -647,7 +1023,15 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
         error: `Failed to stop recording: ${error instanceof Error ? error.message : 'Unknown error'}`
       });
     }
-  }, [send, state.context.sessionId, stopTracks]);
+  }, [scheduleRetry, send, state.context.sessionId, stopTracks, waitForDrain]);
+
+  const retryConnection = useCallback(() => {
+    const socket = socketRef.current;
+    if (socket && !socket.connected) {
+      console.log('Retrying socket connection...');
+      socket.connect();
+    }
+  }, []);
 
   const reset = useCallback(() => {
     console.log('Resetting recorder...');
@@ -663,6 +1047,7 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     // Clear refs
     recorderRef.current = null;
     sequenceRef.current = 0;
+    lastSequenceRef.current = 0;
     chunksRef.current = [];
     currentSessionIdRef.current = undefined;
     
@@ -685,8 +1070,12 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     isSupported,
     browserError: browserError || state.context.error,
     status,
+    pendingChunks,
+    queueStatus,
+    authRequired,
     transcript: state.context.transcript,
     summary: state.context.summary,
+    liveSummary: state.context.liveSummary,
     error: state.context.error,
     source: state.context.source,
     sessionId: state.context.sessionId,
@@ -695,6 +1084,7 @@ export function useRecorderMachine({ user }: UseRecorderOptions) {
     resumeRecording,
     stopRecording,
     reset,
+    retryConnection,
     setSource
   };
 }
\ No newline at end of file
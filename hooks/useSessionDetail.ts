@@ -0,0 +1,146 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import type { SessionDetail, SpeakerRename, SummaryDiff } from "@/types/session";
+
+/**
+ * Error from the sessions API, keeping the HTTP status so pages can tell a
+ * missing session from a failed request.
+ */
+export class SessionFetchError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SessionFetchError";
+  }
+}
+
+async function fetchSession(sessionId: string): Promise<SessionDetail> {
+  const response = await fetch(`/api/sessions/${sessionId}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new SessionFetchError(response.status, data.error ?? "Failed to load session");
+  }
+  return data.session;
+}
+
+/**
+ * Loads one recording session with its full transcript and summary.
+ * 4xx responses are not retried.
+ */
+export function useSessionDetail(sessionId: string) {
+  return useQuery({
+    queryKey: ["session", sessionId],
+    queryFn: () => fetchSession(sessionId),
+    retry: (failureCount, error) =>
+      !(error instanceof SessionFetchError && error.status < 500) && failureCount < 3
+  });
+}
+
+/**
+ * Renames speakers of a session and refetches it, so the transcript and
+ * summary show the new names.
+ */
+export function useRenameSpeakers(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (speakers: SpeakerRename[]) => {
+      const response = await fetch(`/api/sessions/${sessionId}/speakers`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speakers })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to rename speakers");
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["session", sessionId] })
+  });
+}
+
+/**
+ * Re-runs summarization from the stored transcript, optionally with another
+ * summary template, and refetches the session.
+ */
+export function useRegenerateSummary(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId?: string) => {
+      const response = await fetch(`/api/sessions/${sessionId}/summary`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to summarize session");
+      }
+    },
+    // Refetch on failure too: summaryStatus and summaryError changed
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["session", sessionId] })
+  });
+}
+
+/** Diff of a summary version against the current one; idle while `from` is null. */
+export function useSummaryDiff(sessionId: string, from: number | null) {
+  return useQuery({
+    queryKey: ["session", sessionId, "summary-diff", from],
+    queryFn: async (): Promise<SummaryDiff> => {
+      const response = await fetch(`/api/sessions/${sessionId}/summary/diff?from=${from}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to compare summaries");
+      }
+      return data.diff;
+    },
+    enabled: from !== null
+  });
+}
+
+/** Makes an earlier summary version current again and refetches the session. */
+export function useRestoreSummaryVersion(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (version: number) => {
+      const response = await fetch(
+        `/api/sessions/${sessionId}/summary/versions/${version}/restore`,
+        { method: "POST" }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to restore summary");
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["session", sessionId] })
+  });
+}
+
+/** Replaces the session's tags; refetches it and the session list. */
+export function useUpdateSessionTags(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tags: string[]) => {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to update tags");
+      }
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["session", sessionId] });
+      void queryClient.invalidateQueries({ queryKey: ["sessions"] });
+    }
+  });
+}
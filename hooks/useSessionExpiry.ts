@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { authClient } from "@/lib/auth-client";
+
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Periodically re-validates the Better Auth session (which also refreshes it
+ * once it is older than `updateAge`) and reports when it has expired, so the
+ * UI can warn instead of silently losing uploads mid-recording.
+ * Network failures are not treated as expiry.
+ */
+export function useSessionExpiry(intervalMs: number = CHECK_INTERVAL_MS) {
+  const [expired, setExpired] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const { data, error } = await authClient.session();
+        if (cancelled) return;
+        if (error) {
+          if (error.status === 401) setExpired(true);
+          return;
+        }
+        setExpired(!data);
+      } catch (err) {
+        console.warn("Session check failed:", err);
+      }
+    };
+
+    const timer = setInterval(check, intervalMs);
+    window.addEventListener("focus", check);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener("focus", check);
+    };
+  }, [intervalMs]);
+
+  return { expired };
+}
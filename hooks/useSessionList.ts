@@ -0,0 +1,35 @@
+"use client";
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import { SessionFetchError } from "@/hooks/useSessionDetail";
+import type { SessionListFilters, SessionPage } from "@/types/session";
+
+function toSearchParams(filters: SessionListFilters, cursor: string | null) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+/**
+ * The user's sessions, one page at a time; `fetchNextPage` loads the next
+ * page after the last one loaded. Changing filters starts over.
+ */
+export function useSessionList(filters: SessionListFilters) {
+  return useInfiniteQuery({
+    queryKey: ["sessions", filters],
+    queryFn: async ({ pageParam }): Promise<SessionPage> => {
+      const response = await fetch(`/api/sessions?${toSearchParams(filters, pageParam)}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Failed to load sessions");
+      }
+      return data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor
+  });
+}
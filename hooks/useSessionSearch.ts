@@ -0,0 +1,36 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+
+import { SessionFetchError } from "@/hooks/useSessionDetail";
+import type { SearchResult } from "@/types/session";
+
+const DEBOUNCE_MS = 300;
+
+/**
+ * Full-text search across the user's sessions, run once typing pauses.
+ * Keeps showing the previous results while the next ones load.
+ */
+export function useSessionSearch(query: string) {
+  const [debounced, setDebounced] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ["search", debounced],
+    queryFn: async (): Promise<SearchResult[]> => {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(debounced)}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(response.status, data.error ?? "Search failed");
+      }
+      return data.results;
+    },
+    enabled: debounced.length > 0,
+    placeholderData: keepPreviousData
+  });
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { SessionFetchError } from "@/hooks/useSessionDetail";
+import type { SummaryTemplate } from "@/types/session";
+
+/** Built-in summary templates followed by the user's own. */
+export function useSummaryTemplates() {
+  return useQuery({
+    queryKey: ["summary-templates"],
+    queryFn: async (): Promise<SummaryTemplate[]> => {
+      const response = await fetch("/api/summary-templates");
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SessionFetchError(
+          response.status,
+          data.error ?? "Failed to load summary templates"
+        );
+      }
+      return data.templates;
+    },
+    staleTime: 5 * 60_000
+  });
+}
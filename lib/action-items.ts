@@ -0,0 +1,148 @@
+import type { ActionItemStatus, Prisma } from "@prisma/client";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import type { SummaryItem } from "@/types/session";
+
+const actionItemSelect = {
+  id: true,
+  sessionId: true,
+  text: true,
+  owner: true,
+  dueDate: true,
+  status: true,
+  sourceSequence: true,
+  completedAt: true,
+  editedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  session: { select: { startedAt: true } }
+} satisfies Prisma.ActionItemSelect;
+
+/** Identifies an extracted item across summary runs. */
+function draftKey(text: string, sourceSequence: number | null) {
+  return `${sourceSequence ?? ""}:${text.trim().toLowerCase().replace(/\s+/g, " ")}`;
+}
+
+/**
+ * Reconciles a session's action items with the ones extracted by its latest
+ * summary. Runs inside the transaction that stores the summary. Items are
+ * matched by their extracted text and source chunk: untouched open items are
+ * refreshed from the new summary or deleted when it no longer has them,
+ * while completed and user-edited items are kept as they are.
+ */
+export async function replaceSessionActionItems(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  drafts: SummaryItem[]
+) {
+  const existing = await tx.actionItem.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, extractedText: true, sourceSequence: true, status: true, editedAt: true }
+  });
+  const unmatched = new Map<string, typeof existing>();
+  for (const item of existing) {
+    const key = draftKey(item.extractedText, item.sourceSequence);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), item]);
+  }
+
+  const created: Prisma.ActionItemCreateManyInput[] = [];
+  for (const draft of drafts) {
+    const fields = {
+      text: draft.text,
+      extractedText: draft.text,
+      owner: draft.owner ?? null,
+      dueDate: draft.dueDate ? new Date(draft.dueDate) : null,
+      sourceSequence: draft.citations.length ? Math.min(...draft.citations) : null
+    };
+    const match = unmatched.get(draftKey(fields.extractedText, fields.sourceSequence))?.shift();
+    if (!match) {
+      created.push({ sessionId, ...fields });
+    } else if (match.status === "OPEN" && !match.editedAt) {
+      await tx.actionItem.update({ where: { id: match.id }, data: fields });
+    }
+  }
+
+  const stale = Array.from(unmatched.values())
+    .flat()
+    .filter((item) => item.status === "OPEN" && !item.editedAt);
+  if (stale.length) {
+    await tx.actionItem.deleteMany({ where: { id: { in: stale.map((item) => item.id) } } });
+  }
+  if (created.length) {
+    await tx.actionItem.createMany({ data: created });
+  }
+}
+
+type ActionItemFilters = {
+  status?: ActionItemStatus;
+  owner?: string;
+  sessionId?: string;
+};
+
+/**
+ * Action items across all of a user's sessions: open ones first, then by due
+ * date (undated last) and newest first.
+ */
+export function listActionItems(
+  userId: string,
+  { status, owner, sessionId }: ActionItemFilters = {}
+) {
+  return prisma.actionItem.findMany({
+    where: {
+      session: { userId },
+      status,
+      sessionId,
+      owner: owner ? { equals: owner, mode: "insensitive" } : undefined
+    },
+    orderBy: [
+      { status: "asc" },
+      { dueDate: { sort: "asc", nulls: "last" } },
+      { createdAt: "desc" }
+    ],
+    select: actionItemSelect
+  });
+}
+
+type ActionItemChanges = {
+  text?: string;
+  owner?: string | null;
+  dueDate?: string | null;
+  status?: ActionItemStatus;
+};
+
+/**
+ * Edits, reassigns or completes an action item of the user. `completedAt`
+ * follows the status. Throws a 404 ApiError for items of other users.
+ */
+export async function updateActionItem(userId: string, id: string, changes: ActionItemChanges) {
+  const item = await prisma.actionItem.findFirst({
+    where: { id, session: { userId } },
+    select: { status: true }
+  });
+  if (!item) {
+    throw new ApiError(404, "Action item not found");
+  }
+
+  const data: Prisma.ActionItemUpdateInput = {
+    text: changes.text,
+    status: changes.status,
+    editedAt: new Date()
+  };
+  if (changes.owner !== undefined) {
+    data.owner = changes.owner || null;
+  }
+  if (changes.dueDate !== undefined) {
+    data.dueDate = changes.dueDate ? new Date(changes.dueDate) : null;
+  }
+  if (changes.status && changes.status !== item.status) {
+    data.completedAt = changes.status === "DONE" ? new Date() : null;
+  }
+
+  return prisma.actionItem.update({
+    where: { id },
+    data,
+    select: actionItemSelect
+  });
+}
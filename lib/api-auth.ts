@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth, type AuthUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Error carrying the HTTP status an API route should answer with.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Resolves the Better Auth user of the request or throws a 401.
+ */
+export async function requireUser(request: NextRequest): Promise<AuthUser> {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session) {
+    throw new ApiError(401, "Unauthorized");
+  }
+  return session.user;
+}
+
+/**
+ * Resolves the caller and checks they own the recording session.
+ * Throws 401 when signed out, 404 when the session does not exist and 403
+ * when it belongs to someone else.
+ */
+export async function requireSessionOwner(
+  request: NextRequest,
+  sessionId: string
+): Promise<AuthUser> {
+  const user = await requireUser(request);
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true }
+  });
+  if (!session) {
+    throw new ApiError(404, "Session not found");
+  }
+  if (session.userId !== user.id) {
+    throw new ApiError(403, "Forbidden");
+  }
+
+  return user;
+}
+
+/**
+ * Turns an error thrown inside a route handler into a JSON response:
+ * ApiErrors keep their status, anything else is logged and becomes a 500.
+ */
+export function apiErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  // eslint-disable-next-line no-console
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
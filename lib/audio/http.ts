@@ -0,0 +1,113 @@
+import type { AudioStorage, ByteRange } from "@/lib/storage";
+
+/** Bytes read from storage per pull while streaming a response. */
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Parses a single-range `Range: bytes=...` header against an object size.
+ * Returns null when the whole object should be served (no header, another
+ * unit, a multi-range request, or an invalid range such as `bytes=500-100`,
+ * which RFC 9110 says to ignore) and "unsatisfiable" for a 416.
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  let start: number;
+  let end: number;
+
+  if (startText === "") {
+    // Suffix range: the last N bytes
+    const suffix = Number(endText);
+    if (!endText || suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    if (endText !== "" && Number(endText) < start) return null;
+    end = endText === "" ? size - 1 : Math.min(Number(endText), size - 1);
+  }
+
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+function rangeHeaders(range: ByteRange | null, size: number, contentType: string) {
+  const headers = new Headers({
+    "Accept-Ranges": "bytes",
+    "Content-Type": contentType,
+    "Cache-Control": "private, no-cache"
+  });
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+  } else {
+    headers.set("Content-Length", String(size));
+  }
+  return headers;
+}
+
+function unsatisfiable(size: number) {
+  return new Response(null, {
+    status: 416,
+    headers: { "Content-Range": `bytes */${size}` }
+  });
+}
+
+/**
+ * Streams a stored audio object, honouring `Range` so browsers can seek in
+ * long recordings. The object is read in 1 MB ranges as the client pulls,
+ * never loaded whole.
+ */
+export async function serveStoredAudio(
+  request: Request,
+  storage: AudioStorage,
+  key: string
+): Promise<Response | null> {
+  const object = await storage.stat(key);
+  if (!object) return null;
+
+  const range = parseRangeHeader(request.headers.get("range"), object.size);
+  if (range === "unsatisfiable") return unsatisfiable(object.size);
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? object.size - 1;
+  let position = start;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (position > end) {
+        controller.close();
+        return;
+      }
+      const last = Math.min(position + STREAM_CHUNK_BYTES - 1, end);
+      const bytes = await storage.get(key, { start: position, end: last });
+      position = last + 1;
+      controller.enqueue(new Uint8Array(bytes));
+    }
+  });
+
+  return new Response(object.size === 0 ? null : body, {
+    status: range ? 206 : 200,
+    headers: rangeHeaders(range, object.size, object.contentType)
+  });
+}
+
+/**
+ * Same as serveStoredAudio for audio already in memory, such as a chunk with
+ * its WebM header prepended.
+ */
+export function serveAudioBuffer(request: Request, data: Buffer, contentType: string) {
+  const range = parseRangeHeader(request.headers.get("range"), data.length);
+  if (range === "unsatisfiable") return unsatisfiable(data.length);
+
+  const body = range ? data.subarray(range.start, range.end + 1) : data;
+  return new Response(new Uint8Array(body), {
+    status: range ? 206 : 200,
+    headers: rangeHeaders(range, data.length, contentType)
+  });
+}
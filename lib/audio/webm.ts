@@ -0,0 +1,37 @@
+/**
+ * Minimal WebM (Matroska/EBML) helpers for MediaRecorder output.
+ *
+ * With a timeslice, MediaRecorder emits one continuous file split into
+ * blobs: only the first blob starts with the EBML header, Segment info and
+ * Tracks; every later blob is a run of Clusters that no decoder accepts on
+ * its own. Prepending the first blob's header makes such a blob playable,
+ * and concatenating all blobs in order restores the original file.
+ */
+
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+const CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+
+export function isWebm(mimeType: string) {
+  return mimeType.split(";")[0].trim().toLowerCase() === "audio/webm";
+}
+
+/** True when the buffer starts a WebM file rather than continuing one. */
+export function hasWebmHeader(data: Buffer) {
+  return data.subarray(0, EBML_MAGIC.length).equals(EBML_MAGIC);
+}
+
+/**
+ * Returns everything before the first Cluster of a chunk that starts with an
+ * EBML header, or null when the chunk has no header or no Cluster yet.
+ */
+export function extractWebmHeader(data: Buffer): Buffer | null {
+  if (!hasWebmHeader(data)) return null;
+  const clusterAt = data.indexOf(CLUSTER_ID);
+  return clusterAt > 0 ? Buffer.from(data.subarray(0, clusterAt)) : null;
+}
+
+/** Makes a headerless chunk decodable by prepending the session's header. */
+export function withWebmHeader(data: Buffer, header: Buffer | null) {
+  if (!header || hasWebmHeader(data)) return data;
+  return Buffer.concat([header, data]);
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { createAuthClient } from "better-auth/react";
+
+/**
+ * Better Auth browser client. Talks to the `/api/auth/*` route handler on the
+ * same origin, so the session cookie is set for the Next.js app and is also
+ * sent to the socket server on the same host.
+ */
+export const authClient = createAuthClient();
+
+export const { signIn, signOut, signUp, useSession } = authClient;
@@ -16,6 +16,7 @@ export const auth = betterAuth({
     requireEmailVerification: false // Set to true in production
   },
   session: {
+    modelName: "authSession", // "session" is the recording Session model
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24 // 1 day
   }
@@ -23,3 +24,4 @@ export const auth = betterAuth({
 
 export type Session = typeof auth.$Infer.Session;
 
+export type AuthUser = Session["user"];
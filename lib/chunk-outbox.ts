@@ -0,0 +1,121 @@
+"use client";
+
+import { ChunkPayload } from "@/types/session";
+
+const DB_NAME_PREFIX = "scribeai-outbox";
+const DB_VERSION = 1;
+const STORE = "chunks";
+
+/**
+ * Durable client-side queue of audio chunks the server has not acknowledged
+ * yet. Backed by IndexedDB so chunks survive a dropped socket or a page
+ * reload; falls back to memory when IndexedDB is unavailable (private mode,
+ * SSR).
+ */
+export type ChunkOutbox = {
+  put(chunk: ChunkPayload): Promise<void>;
+  remove(sessionId: string, sequence: number): Promise<void>;
+  /** Pending chunks ordered by session, then sequence. */
+  list(sessionId?: string): Promise<ChunkPayload[]>;
+  count(sessionId?: string): Promise<number>;
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, {
+        keyPath: ["sessionId", "sequence"]
+      });
+      store.createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbOutbox(name: string, fallback: ChunkOutbox): ChunkOutbox {
+  const dbPromise = openDatabase(name).catch((error) => {
+    console.warn("IndexedDB unavailable, keeping pending chunks in memory:", error);
+    return null;
+  });
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    const db = await dbPromise;
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+  };
+
+  return {
+    async put(chunk) {
+      const store = await getStore("readwrite");
+      if (!store) return fallback.put(chunk);
+      await requestToPromise(store.put(chunk));
+    },
+    async remove(sessionId, sequence) {
+      const store = await getStore("readwrite");
+      if (!store) return fallback.remove(sessionId, sequence);
+      await requestToPromise(store.delete([sessionId, sequence]));
+    },
+    async list(sessionId) {
+      const store = await getStore("readonly");
+      if (!store) return fallback.list(sessionId);
+      return requestToPromise<ChunkPayload[]>(
+        sessionId ? store.index("sessionId").getAll(sessionId) : store.getAll()
+      );
+    },
+    async count(sessionId) {
+      const store = await getStore("readonly");
+      if (!store) return fallback.count(sessionId);
+      return requestToPromise(
+        sessionId ? store.index("sessionId").count(sessionId) : store.count()
+      );
+    }
+  };
+}
+
+function createMemoryOutbox(): ChunkOutbox {
+  const chunks = new Map<string, ChunkPayload>();
+  const key = (sessionId: string, sequence: number) => `${sessionId}:${sequence}`;
+  const filtered = (sessionId?: string) =>
+    Array.from(chunks.values())
+      .filter((chunk) => !sessionId || chunk.sessionId === sessionId)
+      .sort((a, b) =>
+        a.sessionId === b.sessionId
+          ? a.sequence - b.sequence
+          : a.sessionId.localeCompare(b.sessionId)
+      );
+
+  return {
+    async put(chunk) {
+      chunks.set(key(chunk.sessionId, chunk.sequence), chunk);
+    },
+    async remove(sessionId, sequence) {
+      chunks.delete(key(sessionId, sequence));
+    },
+    async list(sessionId) {
+      return filtered(sessionId);
+    },
+    async count(sessionId) {
+      return filtered(sessionId).length;
+    }
+  };
+}
+
+/**
+ * Opens the outbox of one user; chunks are never shared between accounts
+ * signed in on the same browser.
+ */
+export function createChunkOutbox(userId: string): ChunkOutbox {
+  const memory = createMemoryOutbox();
+  if (typeof indexedDB === "undefined") {
+    return memory;
+  }
+  return createIndexedDbOutbox(`${DB_NAME_PREFIX}:${userId}`, memory);
+}
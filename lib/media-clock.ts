@@ -0,0 +1,67 @@
+/** Timing of one recorded chunk, sent with `session:chunk`. */
+export type ChunkTiming = {
+  /** Wall-clock bounds (epoch ms); a chunk spanning a pause includes it. */
+  startedAt: number;
+  endedAt: number;
+  /** Position in the recorded media, excluding paused time (ms from start). */
+  startOffsetMs: number;
+  endOffsetMs: number;
+};
+
+/**
+ * Tracks how much media a MediaRecorder has actually captured. Paused
+ * intervals are excluded, so offsets match positions in the assembled
+ * recording rather than time on the wall clock.
+ */
+export function createMediaClock() {
+  let startedAt = 0;
+  let pausedAt: number | null = null;
+  let pausedMs = 0;
+  let lastOffsetMs = 0;
+  let lastWallMs = 0;
+
+  const mediaMs = () => {
+    const now = pausedAt ?? performance.now();
+    return Math.max(0, Math.round(now - startedAt - pausedMs));
+  };
+
+  return {
+    start() {
+      startedAt = performance.now();
+      pausedAt = null;
+      pausedMs = 0;
+      lastOffsetMs = 0;
+      lastWallMs = Date.now();
+    },
+
+    pause() {
+      pausedAt ??= performance.now();
+    },
+
+    resume() {
+      if (pausedAt === null) return;
+      pausedMs += performance.now() - pausedAt;
+      pausedAt = null;
+    },
+
+    /**
+     * Closes the current chunk: it spans from the end of the previous one to
+     * now. Call when `dataavailable` fires, not when the chunk is sent.
+     */
+    nextChunk(): ChunkTiming {
+      const endOffsetMs = Math.max(lastOffsetMs, mediaMs());
+      const endedAt = Date.now();
+      const timing = {
+        startedAt: lastWallMs,
+        endedAt,
+        startOffsetMs: lastOffsetMs,
+        endOffsetMs
+      };
+      lastOffsetMs = endOffsetMs;
+      lastWallMs = endedAt;
+      return timing;
+    }
+  };
+}
+
+export type MediaClock = ReturnType<typeof createMediaClock>;
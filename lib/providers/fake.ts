@@ -0,0 +1,64 @@
+import { createHash } from "node:crypto";
+
+import type { SummaryProvider, TranscriptionProvider } from "./types";
+
+const FAKE_SPEAKERS = ["Speaker 1", "Speaker 2"];
+
+/**
+ * Deterministic offline backend for development and CI.
+ * The same audio always yields the same segments, and summaries are
+ * derived from the prompt text only, so no network access is needed.
+ */
+export function createFakeProvider(): TranscriptionProvider & SummaryProvider {
+  return {
+    name: "fake",
+    model: "fake",
+
+    async transcribe(audioBase64) {
+      const bytes = Buffer.from(audioBase64, "base64");
+      const digest = createHash("sha1").update(bytes).digest("hex");
+      const first = parseInt(digest.slice(0, 2), 16) % FAKE_SPEAKERS.length;
+      const text = `Fake transcript for ${bytes.length}-byte chunk ${digest.slice(0, 8)}.`;
+
+      // Every other chunk has a second speaker, to exercise multi-segment chunks
+      if (parseInt(digest.slice(2, 4), 16) % 2 === 0) {
+        return { segments: [{ speakerTag: FAKE_SPEAKERS[first], text, confidence: 1 }] };
+      }
+      return {
+        segments: [
+          { speakerTag: FAKE_SPEAKERS[first], text, startMs: 0, endMs: 2000, confidence: 1 },
+          {
+            speakerTag: FAKE_SPEAKERS[(first + 1) % FAKE_SPEAKERS.length],
+            text: `Reply to chunk ${digest.slice(0, 8)}.`,
+            startMs: 2000,
+            endMs: 4000,
+            confidence: 1
+          }
+        ]
+      };
+    },
+
+    /**
+     * Echoes up to three cited lines ("[#12] ...") of the prompt as items
+     * of the first section in the prompt's JSON format, which is enough to
+     * exercise summarization end to end with any template. Prompts without
+     * citations get an empty object, which callers treat as "no changes".
+     */
+    async completeJson(prompt) {
+      const cited = prompt
+        .split("\n")
+        .map((line) => ({ line, match: line.match(/\[#(\d+)/) }))
+        .filter(({ match }) => match)
+        .slice(0, 3);
+      if (cited.length === 0) return "{}";
+
+      const section = prompt.match(/"(\w+)": \[/)?.[1] ?? "keyPoints";
+      return JSON.stringify({
+        [section]: cited.map(({ line, match }) => ({
+          text: line.replace(/\[#[^\]]*\]/g, "").replace(/^[-\s]+/, "").trim(),
+          citations: [Number(match![1])]
+        }))
+      });
+    }
+  };
+}
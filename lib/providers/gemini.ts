@@ -0,0 +1,69 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+import { buildTranscriptionPrompt, parseTranscriptionResponse } from "./prompts";
+import type { SummaryProvider, TranscriptionProvider } from "./types";
+
+const GEMINI_MODEL = process.env.GEMINI_MODEL ?? "models/gemini-1.5-pro-latest";
+
+/**
+ * Gemini-backed transcription and summarization.
+ * Requires GEMINI_API_KEY; the factory throws when it is missing so the
+ * provider registry can fall back to another backend.
+ */
+export function createGeminiProvider(
+  apiKey: string | undefined = process.env.GEMINI_API_KEY
+): TranscriptionProvider & SummaryProvider {
+  if (!apiKey) {
+    throw new Error("Gemini API key not configured");
+  }
+
+  const client = new GoogleGenerativeAI(apiKey);
+
+  const transcriptModel = client.getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig: {
+      temperature: 0.2,
+      maxOutputTokens: 4096,
+      responseMimeType: "application/json"
+    }
+  });
+
+  const summaryModel = client.getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig: {
+      temperature: 0.4,
+      responseMimeType: "application/json"
+    }
+  });
+
+  return {
+    name: "gemini",
+    model: GEMINI_MODEL,
+
+    async completeJson(prompt) {
+      const result = await summaryModel.generateContent(prompt);
+      return result.response.text();
+    },
+
+    /**
+     * Transcribes audio from base64-encoded audio data.
+     * Supports WebM/Opus format from MediaRecorder. Errors propagate so the
+     * resilience wrapper can retry them.
+     */
+    async transcribe(audioBase64, mimeType = "audio/webm", hints) {
+      // Gemini 1.5 Pro supports multimodal input including audio
+      // Use inlineData for base64-encoded audio
+      const response = await transcriptModel.generateContent([
+        buildTranscriptionPrompt(hints),
+        {
+          inlineData: {
+            data: audioBase64,
+            mimeType: mimeType || "audio/webm"
+          }
+        }
+      ]);
+
+      return parseTranscriptionResponse(response.response?.text() ?? "");
+    }
+  };
+}
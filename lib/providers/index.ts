@@ -0,0 +1,90 @@
+import { createFakeProvider } from "./fake";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { withSummaryResilience, withTranscriptionResilience } from "./resilient";
+import type { ProviderName, SummaryProvider, TranscriptionProvider } from "./types";
+
+export { flattenSegments } from "./prompts";
+export type {
+  ProviderName,
+  SpeakerHints,
+  SummaryProvider,
+  TranscriptionProvider,
+  TranscriptionResult
+} from "./types";
+
+const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai", "fake"];
+
+let warnedAboutFallback = false;
+
+function createProvider(name: ProviderName): TranscriptionProvider & SummaryProvider {
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider();
+    case "openai":
+      return createOpenAIProvider();
+    case "fake":
+      return createFakeProvider();
+  }
+}
+
+/**
+ * Resolves a provider name from an env variable, falling back to AI_PROVIDER
+ * and finally to Gemini when GEMINI_API_KEY is set or the offline fake otherwise.
+ */
+function resolveProviderName(envValue: string | undefined): ProviderName {
+  const requested = (envValue ?? process.env.AI_PROVIDER)?.toLowerCase();
+  if (requested) {
+    if (!PROVIDER_NAMES.includes(requested as ProviderName)) {
+      throw new Error(
+        `Unknown AI provider "${requested}". Expected one of: ${PROVIDER_NAMES.join(", ")}`
+      );
+    }
+    return requested as ProviderName;
+  }
+
+  if (process.env.GEMINI_API_KEY) return "gemini";
+
+  if (!warnedAboutFallback) {
+    warnedAboutFallback = true;
+    // eslint-disable-next-line no-console
+    console.warn("No AI provider configured and GEMINI_API_KEY not found. Using the offline fake provider.");
+  }
+  return "fake";
+}
+
+const instances = new Map<ProviderName, TranscriptionProvider & SummaryProvider>();
+
+function getProvider(name: ProviderName) {
+  let provider = instances.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    instances.set(name, provider);
+  }
+  return provider;
+}
+
+let transcriptionProvider: TranscriptionProvider | undefined;
+let summaryProvider: SummaryProvider | undefined;
+
+/**
+ * Provider used for per-chunk audio transcription (TRANSCRIPTION_PROVIDER),
+ * wrapped with timeouts, retries and a circuit breaker.
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  transcriptionProvider ??= withTranscriptionResilience(
+    getProvider(resolveProviderName(process.env.TRANSCRIPTION_PROVIDER))
+  );
+  return transcriptionProvider;
+}
+
+/**
+ * Provider used for end-of-session summaries (SUMMARY_PROVIDER), wrapped
+ * with timeouts, retries and a circuit breaker.
+ */
+export function getSummaryProvider(): SummaryProvider {
+  summaryProvider ??= withSummaryResilience(
+    getProvider(resolveProviderName(process.env.SUMMARY_PROVIDER))
+  );
+  return summaryProvider;
+}
@@ -0,0 +1,113 @@
+import { parseTranscriptionResponse } from "./prompts";
+import type { SummaryProvider, TranscriptionProvider } from "./types";
+
+type OpenAIProviderOptions = {
+  baseUrl?: string;
+  apiKey?: string;
+  transcriptionModel?: string;
+  summaryModel?: string;
+};
+
+/** `response_format: "verbose_json"` output of `/audio/transcriptions`. */
+type VerboseTranscription = {
+  text?: string;
+  segments?: Array<{ start: number; end: number; text: string; avg_logprob?: number }>;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "mp4"
+};
+
+/**
+ * Provider for any server speaking the OpenAI HTTP API
+ * (`/audio/transcriptions` and `/chat/completions`), e.g. OpenAI itself,
+ * a local whisper.cpp / vLLM / Ollama gateway, or a LiteLLM proxy.
+ */
+export function createOpenAIProvider({
+  baseUrl = process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+  apiKey = process.env.OPENAI_API_KEY,
+  transcriptionModel = process.env.OPENAI_TRANSCRIPTION_MODEL ?? "whisper-1",
+  summaryModel = process.env.OPENAI_SUMMARY_MODEL ?? "gpt-4o-mini"
+}: OpenAIProviderOptions = {}): TranscriptionProvider & SummaryProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  const authHeaders: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {};
+
+  const request = async <T>(path: string, init: RequestInit): Promise<T> => {
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: { ...authHeaders, ...init.headers }
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible request to ${path} failed (${response.status}): ${body}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  const completeJson = async (prompt: string) => {
+    const result = await request<ChatCompletionResponse>("/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: summaryModel,
+        temperature: 0.4,
+        response_format: { type: "json_object" },
+        messages: [{ role: "user", content: prompt }]
+      })
+    });
+    return result.choices?.[0]?.message?.content ?? "";
+  };
+
+  return {
+    name: "openai",
+    model: summaryModel,
+
+    async transcribe(audioBase64, mimeType = "audio/webm", hints) {
+      const baseMimeType = mimeType.split(";")[0];
+      const form = new FormData();
+      form.append(
+        "file",
+        new Blob([Buffer.from(audioBase64, "base64")], { type: baseMimeType }),
+        `chunk.${EXTENSIONS[baseMimeType] ?? "webm"}`
+      );
+      form.append("model", transcriptionModel);
+      form.append("response_format", "verbose_json");
+      if (hints?.previousLines.length) {
+        // Whisper uses the prompt as preceding context for spelling and style
+        form.append("prompt", hints.previousLines.join("\n").slice(-1000));
+      }
+
+      const result = await request<VerboseTranscription>("/audio/transcriptions", {
+        method: "POST",
+        body: form
+      });
+
+      // Whisper-style servers return timed segments but no diarization
+      if (result.segments?.length) {
+        return {
+          segments: result.segments
+            .filter((segment) => segment.text.trim())
+            .map((segment) => ({
+              speakerTag: "speaker",
+              text: segment.text.trim(),
+              startMs: Math.round(segment.start * 1000),
+              endMs: Math.round(segment.end * 1000),
+              confidence:
+                segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : undefined
+            }))
+        };
+      }
+      return parseTranscriptionResponse(result.text ?? "");
+    },
+
+    completeJson
+  };
+}
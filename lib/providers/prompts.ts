@@ -0,0 +1,354 @@
+import { z } from "zod";
+
+import type {
+  StructuredSummary,
+  SummaryItem,
+  SummaryTemplate,
+  TranscriptSegment
+} from "@/types/session";
+
+import type { SpeakerHints, TranscriptionResult } from "./types";
+
+export const TRANSCRIPTION_PROMPT = `
+Transcribe this audio segment from a meeting.
+Identify speakers if possible and provide accurate transcription.
+Handle accents, background noise, and multiple speakers gracefully.
+Split the transcription into segments, starting a new segment whenever the speaker changes.
+Return JSON only, in this exact shape:
+{
+  "segments": [
+    { "speaker": "Speaker 1", "text": "...", "start": 0.0, "end": 4.2, "confidence": 0.9 }
+  ]
+}
+"start" and "end" are seconds from the beginning of this audio segment.
+Use "Speaker 1", "Speaker 2", ... consistently. Return { "segments": [] } for silence.
+`;
+
+/**
+ * TRANSCRIPTION_PROMPT plus the speakers and last lines seen so far in the
+ * session, so labels stay consistent from one chunk to the next.
+ */
+export function buildTranscriptionPrompt(hints?: SpeakerHints): string {
+  if (!hints || (hints.knownSpeakers.length === 0 && hints.previousLines.length === 0)) {
+    return TRANSCRIPTION_PROMPT;
+  }
+
+  return `${TRANSCRIPTION_PROMPT}
+This audio continues a longer meeting.
+Speakers identified so far: ${hints.knownSpeakers.join(", ") || "none"}.
+Reuse these labels when the same voice speaks again; only introduce a new "Speaker N" for a new voice.
+The meeting so far ended with:
+${hints.previousLines.join("\n")}
+`;
+}
+
+/**
+ * Asks the model to map every chunk-local speaker label to a session-wide
+ * identity. Lines look like "[#12] Speaker 2: text".
+ */
+export function buildSpeakerAlignmentPrompt(lines: string[]): string {
+  return `The following meeting transcript was produced in short chunks, each transcribed on its own.
+The chunk number is in brackets. Speaker labels are only reliable within a chunk:
+"Speaker 1" in one chunk may be "Speaker 2" in another.
+
+Using context, names, and conversational flow, decide which labels belong to the same person across chunks.
+Return a JSON object mapping "<chunk number>:<label>" to a consistent session-wide label ("Speaker 1", "Speaker 2", ...),
+numbering speakers in order of first appearance, with one entry for every chunk/label pair:
+{
+  "speakers": { "1:Speaker 1": "Speaker 1", "2:Speaker 1": "Speaker 2" }
+}
+
+Transcript:
+${lines.join("\n")}`;
+}
+
+const speakerAlignmentSchema = z.object({
+  speakers: z.record(z.string())
+});
+
+/**
+ * Parses the alignment response into a map keyed by "<sequence>:<label>".
+ * Returns an empty map when the response is unusable.
+ */
+export function parseSpeakerAlignment(text: string): Map<string, string> {
+  try {
+    const startIdx = text.indexOf("{");
+    const endIdx = text.lastIndexOf("}") + 1;
+    const parsed = speakerAlignmentSchema.parse(JSON.parse(text.slice(startIdx, endIdx)));
+    return new Map(
+      Object.entries(parsed.speakers)
+        .map(([key, label]) => [key.trim(), label.trim()] as const)
+        .filter(([, label]) => label)
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+const ITEM_EXAMPLE = `{ "text": "...", "citations": [3, 7] }`;
+const ACTION_ITEM_EXAMPLE =
+  `{ "text": "task", "owner": "Priya", "dueDate": "2026-10-24", "citations": [12] }`;
+
+/** Output format for a template, with one example item per section. */
+function summaryFormat(template: SummaryTemplate) {
+  const keys = template.sections
+    .map((section) => {
+      const example = section.kind === "actionItems" ? ACTION_ITEM_EXAMPLE : ITEM_EXAMPLE;
+      return `  "${section.key}": [${example}]`;
+    })
+    .join(",\n");
+  const notes = template.sections.some((section) => section.kind === "actionItems")
+    ? `Use null for an action item's owner or dueDate (YYYY-MM-DD) when the recording
+did not state one. `
+    : "";
+
+  return `Return a JSON object with these exact keys, where every item lists the chunk
+numbers (the [#N] markers) it is based on:
+{
+${keys}
+}
+${notes}Use empty arrays for sections with nothing to report.`;
+}
+
+function describeTemplate(template: SummaryTemplate) {
+  const sections = template.sections
+    .map((section) => `  - ${section.title}: ${section.instructions}`)
+    .join("\n");
+  return template.instructions ? `${sections}\n\n${template.instructions}` : sections;
+}
+
+/**
+ * Map step: summarizes one window of transcript lines ("[#12] Speaker: text")
+ * into the template's sections.
+ */
+export function buildWindowSummaryPrompt(lines: string[], template: SummaryTemplate): string {
+  const kind = template.name.toLowerCase();
+  return `Please analyze the following part of a ${kind} transcript and extract:
+${describeTemplate(template)}
+
+Each line starts with its chunk number in brackets.
+${summaryFormat(template)}
+
+Transcript:
+${lines.join("\n")}`;
+}
+
+/**
+ * Reduce step: merges notes from consecutive windows into one summary,
+ * keeping their citations.
+ */
+export function buildCombineSummaryPrompt(partials: string[], template: SummaryTemplate): string {
+  const kind = template.name.toLowerCase();
+  return `The following are notes from consecutive parts of one ${kind} recording, in order.
+Merge them into a single summary of the whole recording: combine duplicates,
+drop points that later parts superseded, and keep the most important items.
+When items are merged, keep the union of their chunk citations. The sections are:
+${describeTemplate(template)}
+
+${summaryFormat(template)}
+
+${partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join("\n\n")}`;
+}
+
+const summaryItemSchema = z.union([
+  z.string().transform((text) => ({ text, citations: [] as number[] })),
+  z.object({
+    text: z.string(),
+    citations: z.array(z.number().int().nonnegative()).default([])
+  })
+]);
+
+/** The `YYYY-MM-DD` day a due date starts with; null when missing or not a real day. */
+function toDueDate(date: string | null | undefined) {
+  const day = date?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  if (!day) return null;
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(day) ? day : null;
+}
+
+const actionItemSchema = z.union([
+  z.string().transform((text) => ({
+    text,
+    owner: null,
+    dueDate: null,
+    citations: [] as number[]
+  })),
+  z.object({
+    text: z.string(),
+    owner: z
+      .string()
+      .nullish()
+      .transform((owner) => owner?.trim() || null),
+    // A date not in ISO form is dropped rather than failing the whole summary
+    dueDate: z.string().nullish().transform(toDueDate),
+    citations: z.array(z.number().int().nonnegative()).default([])
+  })
+]);
+
+function structuredSummarySchema(template: SummaryTemplate) {
+  const shape: z.ZodRawShape = {};
+  for (const section of template.sections) {
+    shape[section.key] = z
+      .array(section.kind === "actionItems" ? actionItemSchema : summaryItemSchema)
+      .default([]);
+  }
+  return z.object(shape);
+}
+
+/**
+ * Repair round: hands a response that failed validation back to the model
+ * together with the validation error.
+ */
+export function buildSummaryRepairPrompt(
+  response: string,
+  error: string,
+  template: SummaryTemplate
+): string {
+  return `Your previous answer could not be used because it is not valid JSON in the
+required format. Validation error: ${error}
+
+${summaryFormat(template)}
+
+Return only the corrected JSON, keeping the content of your previous answer.
+
+Previous answer:
+${response}`;
+}
+
+/** A summary response that is not valid JSON or does not match the template's format. */
+export class SummaryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SummaryFormatError";
+  }
+}
+
+/**
+ * Parses a summary with one item list per template section. A Markdown code
+ * fence around the JSON is tolerated; anything else that is not valid JSON
+ * or does not match the schema throws a SummaryFormatError.
+ */
+export function parseStructuredSummary(
+  text: string,
+  template: SummaryTemplate
+): StructuredSummary {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new SummaryFormatError(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = structuredSummarySchema(template).safeParse(raw);
+  if (!parsed.success) {
+    throw new SummaryFormatError(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")
+    );
+  }
+
+  const summary: StructuredSummary = {};
+  for (const section of template.sections) {
+    summary[section.key] = (parsed.data[section.key] as SummaryItem[])
+      .map((item) => ({
+        ...item,
+        text: item.text.trim(),
+        citations: Array.from(new Set(item.citations))
+      }))
+      .filter((item) => item.text);
+  }
+  return summary;
+}
+
+const segmentResponseSchema = z.object({
+  segments: z.array(
+    z.object({
+      speaker: z.string().optional(),
+      text: z.string(),
+      start: z.number().nonnegative().optional(),
+      end: z.number().nonnegative().optional(),
+      confidence: z.number().min(0).max(1).optional()
+    })
+  )
+});
+
+const DEFAULT_SPEAKER = "speaker";
+const SPEAKER_LINE = /^\[([^\]]+)\]:\s*(.*)$/;
+
+/**
+ * Parses the model's transcription into speaker segments. Expects the JSON
+ * shape requested by TRANSCRIPTION_PROMPT; falls back to "[Speaker 1]: text"
+ * lines (one segment per labelled line, unlabelled lines continuing the
+ * previous one) for models that ignore the format.
+ */
+export function parseTranscriptionResponse(text: string): TranscriptionResult {
+  const startIdx = text.indexOf("{");
+  const endIdx = text.lastIndexOf("}") + 1;
+  if (startIdx !== -1 && endIdx > startIdx) {
+    try {
+      const parsed = segmentResponseSchema.parse(JSON.parse(text.slice(startIdx, endIdx)));
+      return {
+        segments: parsed.segments
+          .filter((segment) => segment.text.trim())
+          .map((segment) => ({
+            speakerTag: segment.speaker?.trim() || DEFAULT_SPEAKER,
+            text: segment.text.trim(),
+            startMs: segment.start !== undefined ? Math.round(segment.start * 1000) : undefined,
+            endMs: segment.end !== undefined ? Math.round(segment.end * 1000) : undefined,
+            confidence: segment.confidence
+          }))
+      };
+    } catch {
+      // Not the JSON we asked for; treat it as plain text below
+    }
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const line of text.split("\n").map((value) => value.trim()).filter(Boolean)) {
+    const speakerMatch = line.match(SPEAKER_LINE);
+    const previous = segments[segments.length - 1];
+    if (speakerMatch) {
+      segments.push({
+        speakerTag: speakerMatch[1].trim(),
+        text: speakerMatch[2].trim(),
+        confidence: 0.85 // Default confidence
+      });
+    } else if (previous) {
+      previous.text = `${previous.text} ${line}`.trim();
+    } else {
+      segments.push({ speakerTag: DEFAULT_SPEAKER, text: line, confidence: 0.8 });
+    }
+  }
+
+  return { segments: segments.filter((segment) => segment.text) };
+}
+
+/**
+ * Derives the chunk-level text, speaker and confidence stored on
+ * TranscriptChunk from its segments. Multi-speaker chunks keep the labels
+ * in the text so summaries still know who said what.
+ */
+export function flattenSegments(segments: TranscriptSegment[]) {
+  const speakers = new Set(segments.map((segment) => segment.speakerTag));
+  const text =
+    speakers.size > 1
+      ? segments.map((segment) => `${segment.speakerTag}: ${segment.text}`).join("\n")
+      : segments.map((segment) => segment.text).join(" ");
+  const scored = segments.filter((segment) => segment.confidence !== undefined);
+
+  return {
+    text,
+    speakerTag: segments[0]?.speakerTag ?? DEFAULT_SPEAKER,
+    confidence: scored.length
+      ? scored.reduce((sum, segment) => sum + segment.confidence!, 0) / scored.length
+      : undefined
+  };
+}
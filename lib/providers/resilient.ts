@@ -0,0 +1,87 @@
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  retry,
+  withTimeout
+} from "@/lib/resilience";
+
+import type { SummaryProvider, TranscriptionProvider } from "./types";
+
+type ResilienceOptions = {
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function readOptions(timeoutEnv: string, defaultTimeoutMs: number): ResilienceOptions {
+  return {
+    timeoutMs: envNumber(timeoutEnv, defaultTimeoutMs),
+    retries: envNumber("PROVIDER_RETRIES", 2),
+    retryBaseDelayMs: envNumber("PROVIDER_RETRY_BASE_MS", 500),
+    failureThreshold: envNumber("PROVIDER_CIRCUIT_THRESHOLD", 5),
+    cooldownMs: envNumber("PROVIDER_CIRCUIT_COOLDOWN_MS", 30_000)
+  };
+}
+
+/**
+ * Runs a provider call with a per-attempt timeout and exponential backoff,
+ * all behind a circuit breaker: a single breaker trip counts the whole
+ * retried call as one failure.
+ */
+function createGuard(label: string, options: ResilienceOptions) {
+  const breaker = createCircuitBreaker({
+    name: label,
+    failureThreshold: options.failureThreshold,
+    cooldownMs: options.cooldownMs
+  });
+
+  return <T>(call: () => Promise<T>) =>
+    breaker.execute(() =>
+      retry(() => withTimeout(call(), options.timeoutMs, label), {
+        retries: options.retries,
+        baseDelayMs: options.retryBaseDelayMs,
+        shouldRetry: (error) => !(error instanceof CircuitOpenError)
+      })
+    );
+}
+
+/**
+ * Wraps a transcription provider with TRANSCRIPTION_TIMEOUT_MS, retries and
+ * a circuit breaker. Failures are rethrown so callers can mark the chunk.
+ */
+export function withTranscriptionResilience(
+  provider: TranscriptionProvider
+): TranscriptionProvider {
+  const guard = createGuard(
+    `${provider.name} transcription`,
+    readOptions("TRANSCRIPTION_TIMEOUT_MS", 30_000)
+  );
+  return {
+    name: provider.name,
+    transcribe: (audioBase64, mimeType, hints) =>
+      guard(() => provider.transcribe(audioBase64, mimeType, hints))
+  };
+}
+
+/**
+ * Wraps a summary provider with SUMMARY_TIMEOUT_MS, retries and a circuit
+ * breaker.
+ */
+export function withSummaryResilience(provider: SummaryProvider): SummaryProvider {
+  const guard = createGuard(
+    `${provider.name} summary`,
+    readOptions("SUMMARY_TIMEOUT_MS", 120_000)
+  );
+  return {
+    name: provider.name,
+    model: provider.model,
+    completeJson: (prompt) => guard(() => provider.completeJson(prompt))
+  };
+}
@@ -0,0 +1,43 @@
+import type { TranscriptSegment } from "@/types/session";
+
+export type ProviderName = "gemini" | "openai" | "fake";
+
+export type TranscriptionResult = {
+  /** Speaker turns in the order spoken; empty for silence. */
+  segments: TranscriptSegment[];
+};
+
+/**
+ * Context from earlier in the session, so a chunk transcribed on its own
+ * reuses the speaker labels already assigned.
+ */
+export type SpeakerHints = {
+  /** Speaker labels used so far, e.g. "Speaker 1". */
+  knownSpeakers: string[];
+  /** The last few transcript lines before this chunk, as "Label: text". */
+  previousLines: string[];
+};
+
+/**
+ * Turns a single base64-encoded audio chunk into text.
+ */
+export interface TranscriptionProvider {
+  readonly name: ProviderName;
+  transcribe(
+    audioBase64: string,
+    mimeType: string,
+    hints?: SpeakerHints
+  ): Promise<TranscriptionResult>;
+}
+
+/**
+ * Text model behind summaries and other post-processing (speaker alignment).
+ * Prompts and parsing live with the callers, e.g. `lib/summarization.ts`.
+ */
+export interface SummaryProvider {
+  readonly name: ProviderName;
+  /** Model behind completeJson, recorded with every generated summary version. */
+  readonly model: string;
+  /** Runs a prompt that asks for a JSON object and returns the raw response text. */
+  completeJson(prompt: string): Promise<string>;
+}
@@ -0,0 +1,127 @@
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Rejects with a TimeoutError if `task` does not settle within `ms`.
+ * The underlying call is not cancelled, its result is just ignored.
+ */
+export async function withTimeout<T>(
+  task: Promise<T>,
+  ms: number,
+  label: string
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(`${label} timed out after ${ms}ms`)),
+      ms
+    );
+  });
+
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type RetryOptions = {
+  /** Attempts after the first one. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+/**
+ * Runs `fn` until it succeeds, retrying with exponential backoff and full
+ * jitter (`random(0, base * 2^attempt)`, capped at `maxDelayMs`).
+ */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries, baseDelayMs, maxDelayMs = 30_000, shouldRetry = () => true }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * ceiling));
+    }
+  }
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+type CircuitBreakerOptions = {
+  name: string;
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before letting a trial call through. */
+  cooldownMs: number;
+};
+
+/**
+ * Classic three-state circuit breaker. While open, calls fail fast with a
+ * CircuitOpenError instead of hitting a provider that is already failing;
+ * after the cooldown one trial call decides whether to close it again.
+ */
+export function createCircuitBreaker({
+  name,
+  failureThreshold,
+  cooldownMs
+}: CircuitBreakerOptions) {
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+
+  const execute = async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (state === "open") {
+      if (Date.now() - openedAt < cooldownMs) {
+        throw new CircuitOpenError(`${name} circuit is open`);
+      }
+      state = "half-open";
+    } else if (state === "half-open") {
+      // Only one trial call at a time
+      throw new CircuitOpenError(`${name} circuit is half-open`);
+    }
+
+    try {
+      const result = await fn();
+      state = "closed";
+      failures = 0;
+      return result;
+    } catch (error) {
+      failures += 1;
+      if (state === "half-open" || failures >= failureThreshold) {
+        // Concurrent calls may already have opened it
+        if ((state as CircuitState) !== "open") {
+          // eslint-disable-next-line no-console
+          console.warn(`${name} circuit opened after ${failures} failures`);
+        }
+        state = "open";
+        openedAt = Date.now();
+      }
+      throw error;
+    }
+  };
+
+  return {
+    execute,
+    get state() {
+      return state;
+    }
+  };
+}
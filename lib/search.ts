@@ -0,0 +1,120 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { SearchResult, SnippetPart } from "@/types/session";
+
+// ts_headline marks matches with these; control characters never occur in
+// transcripts, so splitting on them is safe
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+const HEADLINE_OPTIONS = [
+  `StartSel=${MATCH_START}`,
+  `StopSel=${MATCH_END}`,
+  "MaxWords=30",
+  "MinWords=12",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "'
+].join(", ");
+
+type SearchRow = {
+  kind: "transcript" | "summary";
+  sessionId: string;
+  sessionStartedAt: Date;
+  sequence: number | null;
+  rank: number;
+  headline: string;
+};
+
+function toSnippet(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const piece of headline.split(MATCH_START)) {
+    const [matched, rest] = piece.includes(MATCH_END) ? piece.split(MATCH_END) : [null, piece];
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+/**
+ * Full-text search over the transcripts and summaries of a user's sessions,
+ * best matches first. `query` uses web search syntax ("quoted phrases",
+ * OR, -excluded). Summaries are searched in their key points, action items,
+ * decisions and the contents of every template section. The tsvector
+ * expressions must stay identical to the GIN indexes of migration
+ * 20261020100000_search_summary_sections to use them. Matches are ranked and
+ * limited first, so `ts_headline` only runs for the returned rows.
+ */
+export async function searchSessions(
+  userId: string,
+  query: string,
+  { limit = 20 }: { limit?: number } = {}
+): Promise<SearchResult[]> {
+  const tsquery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+  const summaryVector = Prisma.sql`(
+    to_tsvector('english', sm."keyPoints" || ' ' || sm."actionItems" || ' ' || sm."decisions")
+    || jsonb_to_tsvector('english', jsonb_path_query_array(sm."sections", '$[*].content'), '["string"]')
+  )`;
+  const summaryDocument = Prisma.sql`
+    sm."keyPoints" || ' ' || sm."actionItems" || ' ' || sm."decisions" || ' ' || COALESCE(
+      (SELECT string_agg(section->>'content', ' ') FROM jsonb_array_elements(sm."sections") section),
+      ''
+    )
+  `;
+
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH ranked AS (
+      SELECT
+        'transcript' AS "kind",
+        c."id" AS "chunkId",
+        c."sessionId",
+        s."startedAt" AS "sessionStartedAt",
+        c."sequence",
+        ts_rank(to_tsvector('english', c."text"), ${tsquery}) AS "rank"
+      FROM "TranscriptChunk" c
+      JOIN "Session" s ON s."id" = c."sessionId"
+      WHERE s."userId" = ${userId}
+        AND c."status" = 'TRANSCRIBED'
+        AND to_tsvector('english', c."text") @@ ${tsquery}
+      UNION ALL
+      SELECT
+        'summary' AS "kind",
+        NULL AS "chunkId",
+        sm."sessionId",
+        s."startedAt" AS "sessionStartedAt",
+        NULL AS "sequence",
+        ts_rank(${summaryVector}, ${tsquery}) AS "rank"
+      FROM "Summary" sm
+      JOIN "Session" s ON s."id" = sm."sessionId"
+      WHERE s."userId" = ${userId}
+        AND ${summaryVector} @@ ${tsquery}
+      ORDER BY "rank" DESC, "sessionStartedAt" DESC
+      LIMIT ${limit}
+    )
+    SELECT
+      r."kind",
+      r."sessionId",
+      r."sessionStartedAt",
+      r."sequence",
+      r."rank",
+      ts_headline(
+        'english',
+        COALESCE(c."text", ${summaryDocument}),
+        ${tsquery},
+        ${HEADLINE_OPTIONS}
+      ) AS "headline"
+    FROM ranked r
+    LEFT JOIN "TranscriptChunk" c ON c."id" = r."chunkId"
+    LEFT JOIN "Summary" sm ON r."kind" = 'summary' AND sm."sessionId" = r."sessionId"
+    ORDER BY r."rank" DESC, r."sessionStartedAt" DESC
+  `;
+
+  return rows.map((row) => ({
+    kind: row.kind,
+    sessionId: row.sessionId,
+    sessionStartedAt: row.sessionStartedAt.toISOString(),
+    sequence: row.sequence,
+    rank: Number(row.rank),
+    snippet: toSnippet(row.headline)
+  }));
+}
@@ -0,0 +1,367 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import { z } from "zod";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import { buildTimeline, formatTimestamp, placeSegments } from "@/lib/timeline";
+import { speakerDisplayName } from "@/lib/transcript";
+import type { SummarySection } from "@/types/session";
+
+export const EXPORT_FORMATS = ["srt", "vtt", "md", "docx", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  json: "application/json; charset=utf-8"
+};
+
+const isoDate = z.string().datetime();
+
+const summaryContentSchema = z.object({
+  keyPoints: z.string(),
+  actionItems: z.string(),
+  decisions: z.string(),
+  sections: z.array(z.object({ key: z.string(), title: z.string(), content: z.string() })),
+  templateId: z.string().nullable()
+});
+
+const exportedSegmentSchema = z.object({
+  speakerTag: z.string(),
+  /** Label of the aligned session-wide speaker. */
+  speaker: z.string().nullable(),
+  text: z.string(),
+  startMs: z.number().int().nullable(),
+  endMs: z.number().int().nullable(),
+  confidence: z.number().nullable()
+});
+
+const exportedChunkSchema = z.object({
+  sequence: z.number().int().nonnegative(),
+  speakerTag: z.string(),
+  text: z.string(),
+  status: z.enum(["TRANSCRIBED", "FAILED", "SKIPPED"]),
+  error: z.string().nullable(),
+  startedAt: isoDate,
+  endedAt: isoDate,
+  startOffsetMs: z.number().int().nullable(),
+  endOffsetMs: z.number().int().nullable(),
+  confidence: z.number().nullable(),
+  segments: z.array(exportedSegmentSchema).max(500)
+});
+
+const exportedVersionSchema = summaryContentSchema.extend({
+  version: z.number().int().positive(),
+  source: z.enum(["GENERATED", "EDITED", "RESTORED"]),
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  restoredFrom: z.number().int().nullable(),
+  createdAt: isoDate
+});
+
+const exportedActionItemSchema = z.object({
+  text: z.string(),
+  /** Missing from exports made before edits were tracked. */
+  extractedText: z.string().optional(),
+  owner: z.string().nullable(),
+  dueDate: isoDate.nullable(),
+  status: z.enum(["OPEN", "DONE"]),
+  sourceSequence: z.number().int().nullable(),
+  completedAt: isoDate.nullable(),
+  editedAt: isoDate.nullable().default(null),
+  createdAt: isoDate
+});
+
+/**
+ * The JSON export: everything needed to recreate the session with
+ * `POST /api/sessions/import`. Speakers are referenced by label; ids and
+ * the recorded audio are not part of it. The list limits bound what one
+ * import writes in its transaction (10,000 chunks is over 80 hours).
+ */
+export const sessionExportSchema = z.object({
+  format: z.literal("scribeai.session"),
+  version: z.literal(1),
+  exportedAt: isoDate,
+  session: z.object({
+    source: z.enum(["MIC", "TAB"]),
+    status: z.enum(["COMPLETED", "FAILED"], {
+      errorMap: () => ({ message: "Only finished sessions can be imported" })
+    }),
+    statusReason: z.string().nullable(),
+    startedAt: isoDate,
+    endedAt: isoDate.nullable(),
+    interruptionAt: isoDate.nullable(),
+    summaryStatus: z.enum(["PENDING", "GENERATING", "READY", "FAILED", "SKIPPED"]),
+    summaryError: z.string().nullable(),
+    summaryTemplateId: z.string().nullable(),
+    tags: z.array(z.string()).default([])
+  }),
+  speakers: z
+    .array(z.object({ label: z.string().min(1), name: z.string().nullable() }))
+    .max(100),
+  transcript: z.array(exportedChunkSchema).max(10_000),
+  summary: summaryContentSchema.extend({ version: z.number().int().positive() }).nullable(),
+  summaryVersions: z.array(exportedVersionSchema).max(1_000),
+  actionItems: z.array(exportedActionItemSchema).max(5_000)
+});
+
+export type SessionExport = z.infer<typeof sessionExportSchema>;
+
+async function loadSession(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      summary: true,
+      summaryVersions: { orderBy: { version: "asc" } },
+      actionItems: { orderBy: { createdAt: "asc" } },
+      speakers: { orderBy: { createdAt: "asc" } },
+      transcript: {
+        orderBy: { sequence: "asc" },
+        include: {
+          segments: {
+            orderBy: { index: "asc" },
+            include: { speaker: { select: { label: true, name: true } } }
+          }
+        }
+      }
+    }
+  });
+  if (!session) {
+    throw new ApiError(404, "Session not found");
+  }
+  return session;
+}
+
+type LoadedSession = Awaited<ReturnType<typeof loadSession>>;
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+function toExport(session: LoadedSession): SessionExport {
+  if (session.status !== "COMPLETED" && session.status !== "FAILED") {
+    throw new ApiError(409, "Session is still recording");
+  }
+  const content = (summary: NonNullable<LoadedSession["summary"]>) => ({
+    keyPoints: summary.keyPoints,
+    actionItems: summary.actionItems,
+    decisions: summary.decisions,
+    sections: summary.sections as SummarySection[],
+    templateId: summary.templateId
+  });
+
+  return {
+    format: "scribeai.session",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    session: {
+      source: session.source,
+      status: session.status,
+      statusReason: session.statusReason,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: iso(session.endedAt),
+      interruptionAt: iso(session.interruptionAt),
+      summaryStatus: session.summaryStatus,
+      summaryError: session.summaryError,
+      summaryTemplateId: session.summaryTemplateId,
+      tags: session.tags
+    },
+    speakers: session.speakers.map((speaker) => ({ label: speaker.label, name: speaker.name })),
+    transcript: session.transcript.map((chunk) => ({
+      sequence: chunk.sequence,
+      speakerTag: chunk.speakerTag,
+      text: chunk.text,
+      status: chunk.status,
+      error: chunk.error,
+      startedAt: chunk.startedAt.toISOString(),
+      endedAt: chunk.endedAt.toISOString(),
+      startOffsetMs: chunk.startOffsetMs,
+      endOffsetMs: chunk.endOffsetMs,
+      confidence: chunk.confidence,
+      segments: chunk.segments.map((segment) => ({
+        speakerTag: segment.speakerTag,
+        speaker: segment.speaker?.label ?? null,
+        text: segment.text,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        confidence: segment.confidence
+      }))
+    })),
+    summary: session.summary
+      ? { ...content(session.summary), version: session.summary.version }
+      : null,
+    summaryVersions: session.summaryVersions.map((version) => ({
+      ...content(version),
+      version: version.version,
+      source: version.source,
+      provider: version.provider,
+      model: version.model,
+      restoredFrom: version.restoredFrom,
+      createdAt: version.createdAt.toISOString()
+    })),
+    actionItems: session.actionItems.map((item) => ({
+      text: item.text,
+      extractedText: item.extractedText,
+      owner: item.owner,
+      dueDate: iso(item.dueDate),
+      status: item.status,
+      sourceSequence: item.sourceSequence,
+      completedAt: iso(item.completedAt),
+      editedAt: iso(item.editedAt),
+      createdAt: item.createdAt.toISOString()
+    }))
+  };
+}
+
+type Cue = { startMs: number; endMs: number; speaker: string; text: string };
+
+/** One cue per speaker turn, timed on the recording and named by display name. */
+function buildCues(session: LoadedSession): Cue[] {
+  const chunks = buildTimeline(session.transcript).filter(
+    (chunk) => chunk.status === "TRANSCRIBED"
+  );
+  return chunks.flatMap((chunk): Cue[] => {
+    if (chunk.segments.length === 0) {
+      if (!chunk.text) return [];
+      const { startMs, endMs, speakerTag, text } = chunk;
+      return [{ startMs, endMs, speaker: speakerTag, text }];
+    }
+    return placeSegments(chunk, chunk.segments).map((segment) => ({
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      speaker: speakerDisplayName(segment.speaker, segment.speakerTag),
+      text: segment.text
+    }));
+  });
+}
+
+/** "01:02:03,456" for SRT, "01:02:03.456" for WebVTT. */
+function cueTimestamp(ms: number, separator: "," | ".") {
+  const total = Math.max(0, Math.round(ms));
+  const hours = String(Math.floor(total / 3_600_000)).padStart(2, "0");
+  const minutes = String(Math.floor((total % 3_600_000) / 60_000)).padStart(2, "0");
+  const seconds = String(Math.floor((total % 60_000) / 1000)).padStart(2, "0");
+  const millis = String(total % 1000).padStart(3, "0");
+  return `${hours}:${minutes}:${seconds}${separator}${millis}`;
+}
+
+function toSrt(cues: Cue[]) {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${cueTimestamp(cue.startMs, ",")} --> ${cueTimestamp(cue.endMs, ",")}\n` +
+        `${cue.speaker}: ${cue.text}\n`
+    )
+    .join("\n");
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function toVtt(cues: Cue[]) {
+  const body = cues
+    .map(
+      (cue) =>
+        `${cueTimestamp(cue.startMs, ".")} --> ${cueTimestamp(cue.endMs, ".")}\n` +
+        `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+function documentTitle(session: LoadedSession) {
+  return `Meeting on ${session.startedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/** Summary sections to print; summaries from before templates get the Meeting ones. */
+function summarySections(session: LoadedSession): SummarySection[] {
+  const summary = session.summary;
+  if (!summary) return [];
+  const sections = summary.sections as SummarySection[];
+  if (sections.length > 0) return sections;
+  return [
+    { key: "keyPoints", title: "Key points", content: summary.keyPoints },
+    { key: "actionItems", title: "Action items", content: summary.actionItems },
+    { key: "decisions", title: "Decisions", content: summary.decisions }
+  ];
+}
+
+function toMarkdown(session: LoadedSession, cues: Cue[]) {
+  const lines = [`# ${documentTitle(session)}`, ""];
+  const sections = summarySections(session);
+  if (sections.length > 0) {
+    lines.push("## Summary", "");
+    for (const section of sections) {
+      lines.push(`### ${section.title}`, "", section.content, "");
+    }
+  }
+  lines.push("## Transcript", "");
+  for (const cue of cues) {
+    lines.push(`**[${formatTimestamp(cue.startMs)}] ${cue.speaker}:** ${cue.text}`, "");
+  }
+  return lines.join("\n");
+}
+
+function toDocx(session: LoadedSession, cues: Cue[]) {
+  const paragraphs = [
+    new Paragraph({ text: documentTitle(session), heading: HeadingLevel.TITLE })
+  ];
+  const sections = summarySections(session);
+  if (sections.length > 0) {
+    paragraphs.push(new Paragraph({ text: "Summary", heading: HeadingLevel.HEADING_1 }));
+    for (const section of sections) {
+      paragraphs.push(new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_2 }));
+      for (const line of section.content.split("\n")) {
+        paragraphs.push(new Paragraph({ text: line }));
+      }
+    }
+  }
+  paragraphs.push(new Paragraph({ text: "Transcript", heading: HeadingLevel.HEADING_1 }));
+  for (const cue of cues) {
+    paragraphs.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: `[${formatTimestamp(cue.startMs)}] ${cue.speaker}: `, bold: true }),
+          new TextRun(cue.text)
+        ]
+      })
+    );
+  }
+  return Packer.toBuffer(new Document({ sections: [{ children: paragraphs }] }));
+}
+
+async function render(session: LoadedSession, format: ExportFormat): Promise<string | Buffer> {
+  switch (format) {
+    case "srt":
+      return toSrt(buildCues(session));
+    case "vtt":
+      return toVtt(buildCues(session));
+    case "md":
+      return toMarkdown(session, buildCues(session));
+    case "docx":
+      return toDocx(session, buildCues(session));
+    case "json":
+      return JSON.stringify(toExport(session), null, 2);
+  }
+}
+
+/**
+ * Renders a session for download. Subtitles use the chunk timings on the
+ * recording's timeline with one cue per speaker turn; Markdown and DOCX
+ * hold the current summary and the speaker-labelled transcript; JSON is
+ * the lossless `sessionExportSchema` document. Speakers appear under their
+ * display names. Throws a 404 ApiError for unknown sessions and 409 when
+ * exporting a session that is still recording as JSON.
+ */
+export async function exportSession(sessionId: string, format: ExportFormat) {
+  const session = await loadSession(sessionId);
+  const day = session.startedAt.toISOString().slice(0, 10);
+
+  return {
+    body: await render(session, format),
+    filename: `scribeai-${day}-${session.id.slice(0, 8)}.${format}`,
+    contentType: CONTENT_TYPES[format]
+  };
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "node:crypto";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import type { SessionExport } from "@/lib/session-export";
+import { normalizeTags } from "@/lib/session-list";
+import { recordingDurationMs } from "@/lib/timeline";
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+/**
+ * Recreates an exported session (see `sessionExportSchema`) as a new session
+ * of the user, with fresh ids. Version history keeps its provenance, but
+ * versions are not attributed to a user. Throws a 400 ApiError when segments
+ * point at speakers the export does not list or labels, chunk sequences or
+ * summary versions repeat.
+ */
+export async function importSession(userId: string, data: SessionExport) {
+  const sessionId = randomUUID();
+  const speakerIds = new Map(data.speakers.map((speaker) => [speaker.label, randomUUID()]));
+  if (speakerIds.size !== data.speakers.length) {
+    throw new ApiError(400, "Speaker labels must be unique");
+  }
+  if (new Set(data.transcript.map((chunk) => chunk.sequence)).size !== data.transcript.length) {
+    throw new ApiError(400, "Chunk sequences must be unique");
+  }
+  const versions = data.summaryVersions.map((version) => version.version);
+  if (new Set(versions).size !== versions.length) {
+    throw new ApiError(400, "Summary version numbers must be unique");
+  }
+
+  // A summary still being generated at export time is not part of it
+  let summaryStatus = data.session.summaryStatus;
+  if (summaryStatus === "GENERATING") summaryStatus = data.summary ? "READY" : "PENDING";
+
+  const offsets = data.transcript.flatMap((chunk) => chunk.endOffsetMs ?? []);
+  const startedAt = new Date(data.session.startedAt);
+  const durationMs = recordingDurationMs(
+    offsets.length ? Math.max(...offsets) : null,
+    startedAt,
+    toDate(data.session.endedAt)
+  );
+
+  const chunks = data.transcript.map((chunk) => ({ ...chunk, id: randomUUID() }));
+  const segments = chunks.flatMap((chunk) =>
+    chunk.segments.map((segment, index) => {
+      const speakerId = segment.speaker === null ? null : speakerIds.get(segment.speaker);
+      if (speakerId === undefined) {
+        throw new ApiError(400, `Unknown speaker "${segment.speaker}" in chunk ${chunk.sequence}`);
+      }
+      return {
+        chunkId: chunk.id,
+        index,
+        speakerTag: segment.speakerTag,
+        speakerId,
+        text: segment.text,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        confidence: segment.confidence
+      };
+    })
+  );
+
+  await prisma.$transaction([
+    prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        ...data.session,
+        startedAt,
+        durationMs,
+        tags: normalizeTags(data.session.tags),
+        endedAt: toDate(data.session.endedAt),
+        interruptionAt: toDate(data.session.interruptionAt),
+        summaryStatus
+      }
+    }),
+    prisma.speaker.createMany({
+      // Speakers are listed by createdAt, so keep the exported order
+      data: data.speakers.map((speaker, index) => ({
+        id: speakerIds.get(speaker.label)!,
+        sessionId,
+        label: speaker.label,
+        name: speaker.name,
+        createdAt: new Date(Date.now() + index)
+      }))
+    }),
+    prisma.transcriptChunk.createMany({
+      data: chunks.map(({ segments: _segments, ...chunk }) => ({
+        ...chunk,
+        sessionId,
+        startedAt: new Date(chunk.startedAt),
+        endedAt: new Date(chunk.endedAt)
+      }))
+    }),
+    prisma.transcriptSegment.createMany({ data: segments }),
+    ...(data.summary ? [prisma.summary.create({ data: { ...data.summary, sessionId } })] : []),
+    prisma.summaryVersion.createMany({
+      data: data.summaryVersions.map((version) => ({
+        ...version,
+        sessionId,
+        createdAt: new Date(version.createdAt)
+      }))
+    }),
+    prisma.actionItem.createMany({
+      data: data.actionItems.map((item) => ({
+        ...item,
+        sessionId,
+        extractedText: item.extractedText ?? item.text,
+        dueDate: toDate(item.dueDate),
+        completedAt: toDate(item.completedAt),
+        editedAt: toDate(item.editedAt),
+        createdAt: new Date(item.createdAt)
+      }))
+    })
+  ]);
+
+  return sessionId;
+}
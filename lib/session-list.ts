@@ -0,0 +1,124 @@
+import type { Prisma, RecordingSource, SessionStatus } from "@prisma/client";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import type { SessionListItem, SessionPage } from "@/types/session";
+
+const PREVIEW_CHARS = 160;
+
+/** Trimmed, lowercase and without duplicates or empty tags. */
+export function normalizeTags(tags: string[]) {
+  return Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))
+  );
+}
+
+type SessionListOptions = {
+  cursor?: string;
+  limit: number;
+  status?: SessionStatus;
+  source?: RecordingSource;
+  /** Range of `startedAt`. */
+  from?: Date;
+  to?: Date;
+  /** Sessions must carry all of these. */
+  tags?: string[];
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  sort: "startedAt" | "durationMs";
+  order: "asc" | "desc";
+};
+
+const listSelect = {
+  id: true,
+  status: true,
+  source: true,
+  startedAt: true,
+  endedAt: true,
+  durationMs: true,
+  tags: true,
+  statusReason: true,
+  interruptionAt: true,
+  summaryStatus: true,
+  summary: { select: { keyPoints: true } },
+  transcript: {
+    where: { status: "TRANSCRIBED" },
+    orderBy: { sequence: "asc" },
+    take: 1,
+    select: { text: true }
+  }
+} satisfies Prisma.SessionSelect;
+
+function preview(text: string | undefined) {
+  if (!text) return null;
+  return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS).trimEnd()}…` : text;
+}
+
+/**
+ * One page of a user's sessions with a short preview instead of the
+ * transcript. Pages are keyed by the last session id (`nextCursor`); the id
+ * breaks ties so pages stay stable when sort values repeat. Sorting by
+ * duration leaves out sessions without one (still recording). Throws a 400
+ * ApiError for a cursor that is not one of the user's sessions.
+ */
+export async function listSessions(
+  userId: string,
+  options: SessionListOptions
+): Promise<SessionPage> {
+  const { cursor, limit, sort, order } = options;
+  if (cursor) {
+    const exists = await prisma.session.count({ where: { id: cursor, userId } });
+    if (!exists) {
+      throw new ApiError(400, "Invalid cursor");
+    }
+  }
+
+  const where: Prisma.SessionWhereInput = {
+    userId,
+    status: options.status,
+    source: options.source,
+    startedAt: options.from || options.to ? { gte: options.from, lte: options.to } : undefined,
+    tags: options.tags?.length ? { hasEvery: options.tags } : undefined,
+    durationMs:
+      sort === "durationMs" ||
+      options.minDurationMs !== undefined ||
+      options.maxDurationMs !== undefined
+        ? { not: null, gte: options.minDurationMs, lte: options.maxDurationMs }
+        : undefined
+  };
+
+  const rows = await prisma.session.findMany({
+    where,
+    orderBy: [{ [sort]: order }, { id: order }],
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+    take: limit + 1,
+    select: listSelect
+  });
+
+  const page = rows.slice(0, limit);
+  const sessions: SessionListItem[] = page.map(({ summary, transcript, ...session }) => ({
+    ...session,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+    interruptionAt: session.interruptionAt?.toISOString() ?? null,
+    preview: preview(
+      summary && summary.keyPoints !== "None" ? summary.keyPoints : transcript[0]?.text
+    )
+  }));
+
+  return {
+    sessions,
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null
+  };
+}
+
+/** Replaces a session's tags; returns them normalized. */
+export async function updateSessionTags(sessionId: string, tags: string[]) {
+  const session = await prisma.session.update({
+    where: { id: sessionId },
+    data: { tags: normalizeTags(tags) },
+    select: { tags: true }
+  });
+  return session.tags;
+}
@@ -0,0 +1,133 @@
+import { replaceSessionActionItems } from "@/lib/action-items";
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import { getSummaryProvider, type SummaryProvider } from "@/lib/providers";
+import { actionItemsOf, renderSummary, summarizeTranscript } from "@/lib/summarization";
+import { requireSummaryTemplate, resolveSessionTemplate } from "@/lib/summary-templates";
+import { saveSummaryVersion } from "@/lib/summary-versions";
+import { loadTranscriptLines } from "@/lib/transcript";
+import type { SessionSummary } from "@/types/session";
+
+/**
+ * Summarizes a session from its persisted transcript with the session's
+ * summary template and stores the summary as a new version along with its
+ * action items, tracking progress in `Session.summaryStatus`. `createdById`
+ * is the user who asked for a regeneration.
+ * Returns null (status SKIPPED) when nothing was transcribed. Provider and
+ * validation errors are recorded as FAILED with `summaryError` and rethrown.
+ */
+export async function generateSessionSummary(
+  sessionId: string,
+  summarizer: SummaryProvider,
+  createdById?: string
+): Promise<SessionSummary | null> {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { summaryStatus: "GENERATING", summaryError: null, summaryStartedAt: new Date() }
+  });
+
+  try {
+    const lines = await loadTranscriptLines(sessionId);
+    if (lines.length === 0) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { summaryStatus: "SKIPPED" }
+      });
+      return null;
+    }
+
+    const template = await resolveSessionTemplate(sessionId);
+    const structured = await summarizeTranscript(lines, summarizer, template);
+    const summary = renderSummary(structured, template);
+
+    await prisma.$transaction(async (tx) => {
+      await saveSummaryVersion(tx, sessionId, summary, {
+        source: "GENERATED",
+        provider: summarizer.name,
+        model: summarizer.model,
+        createdById
+      });
+      await replaceSessionActionItems(tx, sessionId, actionItemsOf(structured, template));
+      await tx.session.update({
+        where: { id: sessionId },
+        data: { summaryStatus: "READY" }
+      });
+    });
+
+    return summary;
+  } catch (error) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        summaryStatus: "FAILED",
+        summaryError: error instanceof Error ? error.message : String(error)
+      }
+    });
+    throw error;
+  }
+}
+
+/** A GENERATING run started longer ago than this is assumed to belong to a dead process. */
+const GENERATING_STALE_MS = Number(process.env.SUMMARY_GENERATING_TIMEOUT_MS ?? 30 * 60_000);
+
+type RegenerateOptions = {
+  userId: string;
+  /** Switches the session to another summary template first. */
+  templateId?: string;
+};
+
+/**
+ * Re-runs summarization for a finished session, e.g. after a provider
+ * outage or with another template. A session that failed only because of
+ * its summary becomes COMPLETED again. Throws a 400 ApiError for unknown
+ * templates, 409 while the session is recording or already being
+ * summarized, 422 when nothing was transcribed and 502 when the provider
+ * fails.
+ */
+export async function regenerateSessionSummary(
+  sessionId: string,
+  { userId, templateId }: RegenerateOptions
+) {
+  if (templateId) await requireSummaryTemplate(userId, templateId);
+
+  // Claims the session atomically so two requests cannot summarize it at once
+  const claimed = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      status: { in: ["COMPLETED", "FAILED"] },
+      OR: [
+        { summaryStatus: { not: "GENERATING" } },
+        { summaryStartedAt: null },
+        { summaryStartedAt: { lt: new Date(Date.now() - GENERATING_STALE_MS) } }
+      ]
+    },
+    data: {
+      summaryStatus: "GENERATING",
+      summaryStartedAt: new Date(),
+      summaryTemplateId: templateId
+    }
+  });
+  if (claimed.count === 0) {
+    throw new ApiError(409, "Session is still recording or being summarized");
+  }
+
+  let summary: SessionSummary | null;
+  try {
+    summary = await generateSessionSummary(sessionId, getSummaryProvider(), userId);
+  } catch (error) {
+    throw new ApiError(
+      502,
+      `Summarization failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+  if (!summary) {
+    throw new ApiError(422, "Nothing was transcribed in this session");
+  }
+
+  await prisma.session.updateMany({
+    where: { id: sessionId, status: "FAILED" },
+    data: { status: "COMPLETED", statusReason: null }
+  });
+
+  return summary;
+}
@@ -5,10 +5,17 @@ import { io, Socket } from "socket.io-client";
 const SOCKET_URL =
   process.env.NEXT_PUBLIC_SOCKET_URL ?? "http://localhost:3100";
 
+/**
+ * Socket.io client for the recorder. Reconnects indefinitely; the recorder
+ * rejoins its session room with `session:rejoin` after every reconnect.
+ * The Better Auth session cookie authenticates the connection.
+ */
 export function createSocket(): Socket {
   return io(SOCKET_URL, {
     transports: ["websocket"],
-    reconnectionAttempts: 5,
+    withCredentials: true,
+    reconnectionAttempts: Infinity,
+    reconnectionDelayMax: 10_000,
     timeout: 10_000
   });
 }
@@ -0,0 +1,111 @@
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import { saveSummaryVersion } from "@/lib/summary-versions";
+import { speakerDisplayName } from "@/lib/transcript";
+import type { SessionSummary, SpeakerRename, SummarySection } from "@/types/session";
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces whole-word occurrences of the old names in one pass, so swapping
+ * two names does not rename the first one twice.
+ */
+function replaceNames(text: string, names: Map<string, string>) {
+  if (names.size === 0) return text;
+  const pattern = Array.from(names.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  return text.replace(
+    new RegExp(`(?<![\\w])(${pattern})(?![\\w])`, "g"),
+    (match) => names.get(match) ?? match
+  );
+}
+
+/**
+ * Renames speakers of a session. The display name is used everywhere
+ * transcripts are rendered, the summary mentioning the old names is saved
+ * as a new EDITED version by `userId`, and action item owners are
+ * rewritten too. Throws a 400 ApiError for unknown labels.
+ */
+export async function renameSpeakers(
+  sessionId: string,
+  userId: string,
+  renames: SpeakerRename[]
+) {
+  const speakers = await prisma.speaker.findMany({ where: { sessionId } });
+  const byLabel = new Map(speakers.map((speaker) => [speaker.label, speaker]));
+
+  const names = new Map<string, string>();
+  for (const rename of renames) {
+    const speaker = byLabel.get(rename.label);
+    if (!speaker) {
+      throw new ApiError(400, `Unknown speaker "${rename.label}"`);
+    }
+    const before = speakerDisplayName(speaker, speaker.label);
+    const after = rename.name || speaker.label;
+    if (before !== after) names.set(before, after);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const rename of renames) {
+      await tx.speaker.update({
+        where: { sessionId_label: { sessionId, label: rename.label } },
+        data: { name: rename.name || null }
+      });
+    }
+
+    // Saved as a new version so the history keeps the old names
+    const summary = await tx.summary.findUnique({ where: { sessionId } });
+    if (summary && names.size > 0) {
+      const renamed: SessionSummary = {
+        keyPoints: replaceNames(summary.keyPoints, names),
+        actionItems: replaceNames(summary.actionItems, names),
+        decisions: replaceNames(summary.decisions, names),
+        sections: (summary.sections as SummarySection[]).map((section) => ({
+          ...section,
+          content: replaceNames(section.content, names)
+        })),
+        templateId: summary.templateId
+      };
+      const changed =
+        renamed.keyPoints !== summary.keyPoints ||
+        renamed.actionItems !== summary.actionItems ||
+        renamed.decisions !== summary.decisions ||
+        JSON.stringify(renamed.sections) !== JSON.stringify(summary.sections);
+      if (changed) {
+        await saveSummaryVersion(tx, sessionId, renamed, { source: "EDITED", createdById: userId });
+      }
+    }
+
+    // Looked up before updating, for the same reason as replaceNames
+    const owned = await tx.actionItem.findMany({
+      where: { sessionId, owner: { in: Array.from(names.keys()) } },
+      select: { id: true, owner: true }
+    });
+    for (const item of owned) {
+      await tx.actionItem.update({
+        where: { id: item.id },
+        data: { owner: names.get(item.owner ?? "") }
+      });
+    }
+  });
+
+  return listSpeakers(sessionId);
+}
+
+/** Speakers of a session in order of first appearance. */
+export function listSpeakers(sessionId: string) {
+  return prisma.speaker.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      label: true,
+      name: true,
+      _count: { select: { segments: true } }
+    }
+  });
+}
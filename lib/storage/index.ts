@@ -0,0 +1,33 @@
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { AudioStorage, StorageBackendName } from "./types";
+
+export type { AudioStorage, ByteRange, StorageBackendName, StoredObject } from "./types";
+export {
+  audioExtension,
+  chunkAudioKey,
+  contentTypeForKey,
+  sessionAudioKey,
+  sessionHeaderKey
+} from "./keys";
+
+const BACKENDS: StorageBackendName[] = ["local", "s3"];
+
+let storage: AudioStorage | undefined;
+
+/**
+ * Audio storage selected by AUDIO_STORAGE ("local" by default, or "s3").
+ */
+export function getAudioStorage(): AudioStorage {
+  if (storage) return storage;
+
+  const requested = (process.env.AUDIO_STORAGE ?? "local").toLowerCase();
+  if (!BACKENDS.includes(requested as StorageBackendName)) {
+    throw new Error(
+      `Unknown audio storage "${requested}". Expected one of: ${BACKENDS.join(", ")}`
+    );
+  }
+
+  storage = requested === "s3" ? createS3Storage() : createLocalStorage();
+  return storage;
+}
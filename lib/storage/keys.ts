@@ -0,0 +1,31 @@
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": ".webm",
+  "audio/ogg": ".ogg",
+  "audio/mp4": ".m4a"
+};
+
+/** Maps a MediaRecorder mime type (`audio/webm;codecs=opus`) to a file extension. */
+export function audioExtension(mimeType: string) {
+  return EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] ?? ".bin";
+}
+
+export function contentTypeForKey(key: string) {
+  const match = Object.entries(EXTENSIONS).find(([, extension]) =>
+    key.endsWith(extension)
+  );
+  return match?.[0] ?? "application/octet-stream";
+}
+
+export function chunkAudioKey(sessionId: string, sequence: number, mimeType: string) {
+  const name = String(sequence).padStart(6, "0");
+  return `sessions/${sessionId}/chunks/${name}${audioExtension(mimeType)}`;
+}
+
+/** Container header (EBML + Segment info + Tracks) of the session's first chunk. */
+export function sessionHeaderKey(sessionId: string) {
+  return `sessions/${sessionId}/header.webm`;
+}
+
+export function sessionAudioKey(sessionId: string, mimeType: string) {
+  return `sessions/${sessionId}/session${audioExtension(mimeType)}`;
+}
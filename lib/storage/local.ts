@@ -0,0 +1,61 @@
+import { mkdir, open, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { contentTypeForKey } from "./keys";
+import type { AudioStorage } from "./types";
+
+/**
+ * Stores audio on the local filesystem under AUDIO_STORAGE_DIR. Content types
+ * are not persisted; they are derived from the key's extension on read.
+ */
+export function createLocalStorage(
+  root: string = process.env.AUDIO_STORAGE_DIR ?? path.join(process.cwd(), "storage", "audio")
+): AudioStorage {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key, range) {
+      const filePath = resolveKey(key);
+      if (!range) {
+        return readFile(filePath);
+      }
+
+      const handle = await open(filePath, "r");
+      try {
+        const buffer = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+
+    async stat(key) {
+      try {
+        const info = await stat(resolveKey(key));
+        return { size: info.size, contentType: contentTypeForKey(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    }
+  };
+}
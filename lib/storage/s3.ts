@@ -0,0 +1,107 @@
+import type { S3Client } from "@aws-sdk/client-s3";
+
+import type { AudioStorage } from "./types";
+
+type S3StorageOptions = {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services (MinIO, R2, ...). */
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+};
+
+function readOptions(): S3StorageOptions {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET is required when AUDIO_STORAGE=s3");
+  }
+  return {
+    bucket,
+    region: process.env.S3_REGION ?? "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+  };
+}
+
+function isNotFound(error: unknown) {
+  const name = (error as { name?: string })?.name;
+  return name === "NotFound" || name === "NoSuchKey";
+}
+
+/**
+ * Stores audio in an S3-compatible bucket. The AWS SDK is imported lazily so
+ * deployments using local storage never load it.
+ */
+export function createS3Storage(options: S3StorageOptions = readOptions()): AudioStorage {
+  const { bucket } = options;
+  const sdk = import("@aws-sdk/client-s3");
+  let client: S3Client | undefined;
+
+  const getClient = async () => {
+    const { S3Client } = await sdk;
+    client ??= new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey
+            }
+          : undefined
+    });
+    return client;
+  };
+
+  return {
+    name: "s3",
+
+    async put(key, data, contentType) {
+      const { PutObjectCommand } = await sdk;
+      await (await getClient()).send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType })
+      );
+    },
+
+    async get(key, range) {
+      const { GetObjectCommand } = await sdk;
+      const response = await (await getClient()).send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined
+        })
+      );
+      if (!response.Body) {
+        throw new Error(`Empty body for storage key "${key}"`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async stat(key) {
+      const { HeadObjectCommand } = await sdk;
+      try {
+        const response = await (await getClient()).send(
+          new HeadObjectCommand({ Bucket: bucket, Key: key })
+        );
+        return {
+          size: response.ContentLength ?? 0,
+          contentType: response.ContentType ?? "application/octet-stream"
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      const { DeleteObjectCommand } = await sdk;
+      await (await getClient()).send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    }
+  };
+}
@@ -0,0 +1,27 @@
+export type StorageBackendName = "local" | "s3";
+
+/** Inclusive byte range, as in an HTTP `Range: bytes=start-end` header. */
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+export type StoredObject = {
+  size: number;
+  contentType: string;
+};
+
+/**
+ * Blob storage for recorded audio. Keys are slash-separated paths such as
+ * `sessions/<id>/chunks/000001.webm`; they are what the database stores in
+ * `TranscriptChunk.audioUrl` and `Session.audioArtifact`.
+ */
+export interface AudioStorage {
+  readonly name: StorageBackendName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Reads the whole object, or one byte range of it. Throws when missing. */
+  get(key: string, range?: ByteRange): Promise<Buffer>;
+  /** Returns null when the object does not exist. */
+  stat(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,265 @@
+import type { SummaryProvider } from "@/lib/providers";
+import {
+  buildCombineSummaryPrompt,
+  buildSummaryRepairPrompt,
+  buildWindowSummaryPrompt,
+  parseStructuredSummary,
+  SummaryFormatError
+} from "@/lib/providers/prompts";
+import type { TranscriptLine } from "@/lib/transcript";
+import type {
+  SessionSummary,
+  StructuredSummary,
+  SummaryItem,
+  SummarySection,
+  SummaryTemplate
+} from "@/types/session";
+
+/** Transcript characters summarized per map call; also the budget per reduce call. */
+const WINDOW_CHARS = Number(process.env.SUMMARY_WINDOW_CHARS ?? 16_000);
+
+/** Extra calls that ask the model to fix a malformed summary before giving up. */
+const REPAIR_ATTEMPTS = Number(process.env.SUMMARY_REPAIR_ATTEMPTS ?? 1);
+
+/** Map or reduce calls in flight at once for one summary. */
+const CONCURRENCY = Math.max(1, Number(process.env.SUMMARY_CONCURRENCY ?? 3));
+
+/**
+ * `Promise.all(items.map(task))` with at most CONCURRENCY tasks running, so a
+ * long recording does not flood the provider with parallel calls.
+ */
+async function mapWithConcurrency<T, R>(items: T[], task: (item: T) => Promise<R>) {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Formats an item with its citations, e.g. "Ship Friday [#4, #9]". Action
+ * items read "Owner: task (due 2026-10-24) [#12]".
+ */
+export function formatSummaryItem(item: SummaryItem) {
+  let text = item.owner ? `${item.owner}: ${item.text}` : item.text;
+  if (item.dueDate) text += ` (due ${item.dueDate})`;
+  return item.citations.length
+    ? `${text} [${item.citations.map((sequence) => `#${sequence}`).join(", ")}]`
+    : text;
+}
+
+function renderItems(items: SummaryItem[]) {
+  return items.length ? items.map((item) => `- ${formatSummaryItem(item)}`).join("\n") : "None";
+}
+
+/** Items of the template's "actionItems" sections, to be stored as ActionItem records. */
+export function actionItemsOf(summary: StructuredSummary, template: SummaryTemplate) {
+  return template.sections
+    .filter((section) => section.kind === "actionItems")
+    .flatMap((section) => summary[section.key] ?? []);
+}
+
+/**
+ * Splits entries into consecutive groups of at most `budget` characters.
+ * An entry longer than the budget gets a group of its own.
+ */
+function groupByBudget<T>(entries: T[], size: (entry: T) => number, budget: number): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let total = 0;
+
+  for (const entry of entries) {
+    if (current.length > 0 && total + size(entry) > budget) {
+      groups.push(current);
+      current = [];
+      total = 0;
+    }
+    current.push(entry);
+    total += size(entry) + 1;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+function renderPartial(summary: StructuredSummary, template: SummaryTemplate) {
+  return template.sections
+    .map((section) => {
+      const items = (summary[section.key] ?? []).map((item) => `- ${formatSummaryItem(item)}`);
+      return `${section.key}:\n${items.length ? items.join("\n") : "- none"}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Runs a summary prompt and validates the answer. A malformed answer is sent
+ * back with the validation error for up to SUMMARY_REPAIR_ATTEMPTS repair
+ * rounds; after that the SummaryFormatError is thrown.
+ */
+async function completeSummary(
+  provider: SummaryProvider,
+  prompt: string,
+  template: SummaryTemplate
+) {
+  let response = await provider.completeJson(prompt);
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return parseStructuredSummary(response, template);
+    } catch (error) {
+      if (!(error instanceof SummaryFormatError) || attempt >= REPAIR_ATTEMPTS) throw error;
+      // eslint-disable-next-line no-console
+      console.warn(`Repairing malformed summary from ${provider.name}: ${error.message}`);
+      response = await provider.completeJson(
+        buildSummaryRepairPrompt(response, error.message, template)
+      );
+    }
+  }
+}
+
+/** Drops citations the model made up, i.e. sequences not in the transcript. */
+function keepKnownCitations(summary: StructuredSummary, known: Set<number>): StructuredSummary {
+  const clean: StructuredSummary = {};
+  for (const [key, items] of Object.entries(summary)) {
+    clean[key] = items.map((item) => ({
+      ...item,
+      citations: item.citations
+        .filter((sequence) => known.has(sequence))
+        .sort((a, b) => a - b)
+    }));
+  }
+  return clean;
+}
+
+/**
+ * Map-reduce summarization: the transcript is cut into windows of about
+ * SUMMARY_WINDOW_CHARS along line boundaries, each window is summarized on
+ * its own into the template's sections, and the partial summaries are merged
+ * in rounds until one is left. Every line carries its chunk sequence ("[#12]")
+ * so items keep citations back to where they were said. Short meetings take
+ * a single call.
+ */
+export async function summarizeTranscript(
+  lines: TranscriptLine[],
+  provider: SummaryProvider,
+  template: SummaryTemplate
+): Promise<StructuredSummary> {
+  const known = new Set(lines.map((line) => line.sequence));
+  const windows = groupByBudget(
+    lines.map((line) => `[#${line.sequence}] ${line.speaker}: ${line.text}`),
+    (entry) => entry.length,
+    WINDOW_CHARS
+  );
+
+  let partials = await mapWithConcurrency(windows, (window) =>
+    completeSummary(provider, buildWindowSummaryPrompt(window, template), template)
+  );
+
+  while (partials.length > 1) {
+    let groups = groupByBudget(
+      partials,
+      (partial) => renderPartial(partial, template).length,
+      WINDOW_CHARS
+    );
+    // Each round must shrink the list, even when partials exceed the budget
+    if (groups.length === partials.length) groups = [partials];
+
+    partials = await mapWithConcurrency(groups, async (group) =>
+      group.length === 1
+        ? group[0]
+        : completeSummary(
+            provider,
+            buildCombineSummaryPrompt(
+              group.map((partial) => renderPartial(partial, template)),
+              template
+            ),
+            template
+          )
+    );
+  }
+
+  return keepKnownCitations(partials[0] ?? {}, known);
+}
+
+/**
+ * Folds newly transcribed lines into an earlier summary: the new lines are
+ * summarized on their own, then merged with `previous` in one more call.
+ */
+export async function extendSummary(
+  previous: StructuredSummary | null,
+  lines: TranscriptLine[],
+  provider: SummaryProvider,
+  template: SummaryTemplate
+): Promise<StructuredSummary> {
+  const addition = await summarizeTranscript(lines, provider, template);
+  if (!previous) return addition;
+
+  const known = new Set(
+    [...Object.values(previous), ...Object.values(addition)].flatMap((items) =>
+      items.flatMap((item) => item.citations)
+    )
+  );
+  const merged = await completeSummary(
+    provider,
+    buildCombineSummaryPrompt(
+      [renderPartial(previous, template), renderPartial(addition, template)],
+      template
+    ),
+    template
+  );
+  return keepKnownCitations(merged, known);
+}
+
+/**
+ * Derives the key points, action items and decisions fields from rendered
+ * sections. They map to the Meeting template's sections; for other
+ * templates, key points collect the remaining sections under their titles.
+ * Used for generated summaries and after manual edits.
+ */
+export function summaryFromSections(
+  sections: SummarySection[],
+  template: SummaryTemplate
+): SessionSummary {
+  const contentOf = (key: string) => sections.find((section) => section.key === key)?.content;
+  const kindOf = (key: string) =>
+    template.sections.find((section) => section.key === key)?.kind ?? "items";
+
+  const others = sections.filter(
+    (section) => kindOf(section.key) === "items" && section.key !== "decisions"
+  );
+  const keyPoints =
+    contentOf("keyPoints") ??
+    others.map((section) => `${section.title}:\n${section.content}`).join("\n\n");
+  const actionItems = sections
+    .filter((section) => kindOf(section.key) === "actionItems" && section.content !== "None")
+    .map((section) => section.content)
+    .join("\n");
+
+  return {
+    keyPoints: keyPoints || "None",
+    actionItems: actionItems || "None",
+    decisions: contentOf("decisions") ?? "None",
+    sections,
+    templateId: template.id
+  };
+}
+
+/**
+ * Renders a structured summary to the stored text form: one "- item [#n]"
+ * bullet per line, or "None" for an empty section.
+ */
+export function renderSummary(
+  summary: StructuredSummary,
+  template: SummaryTemplate
+): SessionSummary {
+  const sections: SummarySection[] = template.sections.map((section) => ({
+    key: section.key,
+    title: section.title,
+    content: renderItems(summary[section.key] ?? [])
+  }));
+  return summaryFromSections(sections, template);
+}
@@ -0,0 +1,272 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import type { SummaryTemplate, SummaryTemplateSection } from "@/types/session";
+
+export const DEFAULT_TEMPLATE_ID = "meeting";
+
+function templateSection(
+  key: string,
+  title: string,
+  instructions: string,
+  kind: SummaryTemplateSection["kind"] = "items"
+): SummaryTemplateSection {
+  return { key, title, instructions, kind };
+}
+
+const BUILT_IN_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: "Meeting",
+    instructions: null,
+    builtIn: true,
+    sections: [
+      templateSection("keyPoints", "Key points", "Key points discussed"),
+      templateSection(
+        "actionItems",
+        "Action items",
+        "Action items with owners (if any)",
+        "actionItems"
+      ),
+      templateSection("decisions", "Decisions", "Decisions made")
+    ]
+  },
+  {
+    id: "standup",
+    name: "Standup",
+    instructions: "A short daily team standup; group updates by person.",
+    builtIn: true,
+    sections: [
+      templateSection("done", "Done", "What each person finished since the last standup"),
+      templateSection("planned", "Planned", "What each person is working on next"),
+      templateSection("blockers", "Blockers", "Anything blocking someone, and who can help"),
+      templateSection(
+        "actionItems",
+        "Follow-ups",
+        "Follow-ups agreed during the standup",
+        "actionItems"
+      )
+    ]
+  },
+  {
+    id: "interview",
+    name: "Interview",
+    instructions: "A job interview; write for the hiring team and stay factual.",
+    builtIn: true,
+    sections: [
+      templateSection("background", "Background", "The candidate's relevant experience"),
+      templateSection("strengths", "Strengths", "Strengths the candidate demonstrated"),
+      templateSection("concerns", "Concerns", "Gaps or concerns that came up"),
+      templateSection("questions", "Candidate questions", "Questions the candidate asked")
+    ]
+  },
+  {
+    id: "sales-call",
+    name: "Sales call",
+    instructions: "A call with a prospect or customer.",
+    builtIn: true,
+    sections: [
+      templateSection(
+        "needs",
+        "Customer needs",
+        "Problems, goals and requirements the customer described"
+      ),
+      templateSection("objections", "Objections", "Concerns about price, fit or timing"),
+      templateSection("nextSteps", "Next steps", "Agreed next steps", "actionItems")
+    ]
+  },
+  {
+    id: "lecture",
+    name: "Lecture",
+    instructions: "A lecture or talk; write study notes for someone who missed it.",
+    builtIn: true,
+    sections: [
+      templateSection("topics", "Topics", "Topics covered, in order"),
+      templateSection("concepts", "Key concepts", "Definitions and key ideas explained"),
+      templateSection("questions", "Questions", "Questions raised and their answers")
+    ]
+  }
+];
+
+/** Sections as accepted by the templates API and stored in `SummaryTemplate.sections`. */
+export const templateSectionsSchema = z
+  .array(
+    z.object({
+      key: z
+        .string()
+        .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Keys must be letters, digits and underscores")
+        .max(40)
+        .optional(),
+      title: z.string().trim().min(1).max(80),
+      instructions: z.string().trim().min(1).max(500),
+      kind: z.enum(["items", "actionItems"]).default("items")
+    })
+  )
+  .min(1)
+  .max(10)
+  .transform((sections, context): SummaryTemplateSection[] => {
+    const withKeys = sections.map((section) => ({
+      ...section,
+      key: section.key ?? keyFromTitle(section.title)
+    }));
+    const keys = withKeys.map((section) => section.key);
+    if (new Set(keys).size !== keys.length) {
+      context.addIssue({ code: "custom", message: "Section keys must be unique" });
+    }
+    return withKeys;
+  });
+
+/** "Next steps" -> "nextSteps" */
+function keyFromTitle(title: string) {
+  const words = title.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const key = words
+    .map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1)))
+    .join("");
+  return /^[a-z]/.test(key) ? key : `section${key}`;
+}
+
+type StoredTemplate = {
+  id: string;
+  name: string;
+  instructions: string | null;
+  sections: Prisma.JsonValue;
+};
+
+function fromStored(template: StoredTemplate): SummaryTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    instructions: template.instructions,
+    sections: template.sections as SummaryTemplateSection[],
+    builtIn: false
+  };
+}
+
+/** Built-in templates followed by the user's own, by name. */
+export async function listSummaryTemplates(userId: string): Promise<SummaryTemplate[]> {
+  const own = await prisma.summaryTemplate.findMany({
+    where: { userId },
+    orderBy: { name: "asc" }
+  });
+  return [...BUILT_IN_TEMPLATES, ...own.map(fromStored)];
+}
+
+/**
+ * Looks up a built-in or user template by id. Throws a 400 ApiError for ids
+ * that are unknown or belong to another user.
+ */
+export async function requireSummaryTemplate(
+  userId: string,
+  templateId: string
+): Promise<SummaryTemplate> {
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === templateId);
+  if (builtIn) return builtIn;
+
+  const template = await prisma.summaryTemplate.findFirst({ where: { id: templateId, userId } });
+  if (!template) {
+    throw new ApiError(400, `Unknown summary template "${templateId}"`);
+  }
+  return fromStored(template);
+}
+
+/**
+ * Like requireSummaryTemplate, but falls back to the Meeting template when
+ * no id is given or the template has since been deleted.
+ */
+export async function findSummaryTemplate(
+  userId: string,
+  templateId: string | null
+): Promise<SummaryTemplate> {
+  if (templateId) {
+    try {
+      return await requireSummaryTemplate(userId, templateId);
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+    }
+  }
+  return BUILT_IN_TEMPLATES[0];
+}
+
+/** Template a session is summarized with, see findSummaryTemplate. */
+export async function resolveSessionTemplate(sessionId: string): Promise<SummaryTemplate> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, summaryTemplateId: true }
+  });
+  return session
+    ? findSummaryTemplate(session.userId, session.summaryTemplateId)
+    : BUILT_IN_TEMPLATES[0];
+}
+
+type TemplateInput = {
+  name: string;
+  instructions?: string | null;
+  sections: SummaryTemplateSection[];
+};
+
+async function assertNameFree(userId: string, name: string, exceptId?: string) {
+  const clash =
+    BUILT_IN_TEMPLATES.some((template) => template.name.toLowerCase() === name.toLowerCase()) ||
+    (await prisma.summaryTemplate.findFirst({
+      where: { userId, name: { equals: name, mode: "insensitive" }, id: { not: exceptId } },
+      select: { id: true }
+    }));
+  if (clash) {
+    throw new ApiError(409, `A template named "${name}" already exists`);
+  }
+}
+
+async function requireOwnTemplate(userId: string, id: string) {
+  const template = await prisma.summaryTemplate.findFirst({
+    where: { id, userId },
+    select: { id: true }
+  });
+  if (!template) {
+    throw new ApiError(404, "Summary template not found");
+  }
+}
+
+/** Creates a user template. Throws a 409 ApiError when the name is taken. */
+export async function createSummaryTemplate(userId: string, input: TemplateInput) {
+  await assertNameFree(userId, input.name);
+  const template = await prisma.summaryTemplate.create({
+    data: {
+      userId,
+      name: input.name,
+      instructions: input.instructions ?? null,
+      sections: input.sections
+    }
+  });
+  return fromStored(template);
+}
+
+/**
+ * Updates one of the user's templates. Built-in templates cannot be changed
+ * (404). Sessions already summarized keep their stored sections.
+ */
+export async function updateSummaryTemplate(
+  userId: string,
+  id: string,
+  input: Partial<TemplateInput>
+) {
+  await requireOwnTemplate(userId, id);
+  if (input.name) await assertNameFree(userId, input.name, id);
+
+  const template = await prisma.summaryTemplate.update({
+    where: { id },
+    data: {
+      name: input.name,
+      instructions: input.instructions,
+      sections: input.sections
+    }
+  });
+  return fromStored(template);
+}
+
+/** Deletes one of the user's templates; sessions using it fall back to Meeting. */
+export async function deleteSummaryTemplate(userId: string, id: string) {
+  await requireOwnTemplate(userId, id);
+  await prisma.summaryTemplate.delete({ where: { id } });
+}
@@ -0,0 +1,281 @@
+import type { Prisma, SummaryVersionSource } from "@prisma/client";
+
+import { ApiError } from "@/lib/api-auth";
+import { prisma } from "@/lib/prisma";
+import { summaryFromSections } from "@/lib/summarization";
+import { findSummaryTemplate } from "@/lib/summary-templates";
+import type {
+  SessionSummary,
+  SummaryDiff,
+  SummaryDiffLine,
+  SummarySection
+} from "@/types/session";
+
+/** History metadata returned with a session; the content is fetched per version. */
+export const summaryVersionMetaSelect = {
+  version: true,
+  source: true,
+  provider: true,
+  model: true,
+  templateId: true,
+  restoredFrom: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.SummaryVersionSelect;
+
+type VersionOrigin = {
+  source: SummaryVersionSource;
+  provider?: string;
+  model?: string;
+  createdById?: string;
+  restoredFrom?: number;
+};
+
+/**
+ * Stores a summary as the session's next version and makes it the current
+ * one. Runs inside the caller's transaction; the row lock taken by the
+ * Summary update keeps version numbers unique.
+ */
+export async function saveSummaryVersion(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  summary: SessionSummary,
+  origin: VersionOrigin
+) {
+  const current = await tx.summary.upsert({
+    where: { sessionId },
+    update: { ...summary, version: { increment: 1 } },
+    create: { sessionId, ...summary },
+    select: { version: true }
+  });
+  await tx.summaryVersion.create({
+    data: { sessionId, version: current.version, ...summary, ...origin }
+  });
+  return current.version;
+}
+
+/** Summary history of a session, newest first. */
+export function listSummaryVersions(sessionId: string) {
+  return prisma.summaryVersion.findMany({
+    where: { sessionId },
+    orderBy: { version: "desc" },
+    select: summaryVersionMetaSelect
+  });
+}
+
+/** One version with its content. Throws a 404 ApiError for unknown versions. */
+export async function getSummaryVersion(sessionId: string, version: number) {
+  const found = await prisma.summaryVersion.findUnique({
+    where: { sessionId_version: { sessionId, version } },
+    select: {
+      ...summaryVersionMetaSelect,
+      keyPoints: true,
+      actionItems: true,
+      decisions: true,
+      sections: true
+    }
+  });
+  if (!found) {
+    throw new ApiError(404, `Summary version ${version} not found`);
+  }
+  return { ...found, sections: found.sections as SummarySection[] };
+}
+
+/** New content for an edited field; an emptied field reads "None". */
+function edited(value: string | undefined, previous: string) {
+  return value === undefined ? previous : value.trim() || "None";
+}
+
+type SummaryEdit = {
+  sections?: Array<{ key: string; content: string }>;
+  keyPoints?: string;
+  actionItems?: string;
+  decisions?: string;
+};
+
+/**
+ * Saves a hand-edited summary as a new EDITED version. Summaries with
+ * template sections are edited section by section and the key points,
+ * action items and decisions fields are derived again; older summaries
+ * without sections edit those fields directly. Action items tracked in
+ * `ActionItem` rows are left as they are.
+ * Throws a 404 ApiError when the session has no summary and 400 for
+ * unknown section keys.
+ */
+export async function editSessionSummary(sessionId: string, userId: string, edit: SummaryEdit) {
+  const current = await prisma.summary.findUnique({ where: { sessionId } });
+  if (!current) {
+    throw new ApiError(404, "This session has no summary yet");
+  }
+
+  const sections = current.sections as SummarySection[];
+  let summary: SessionSummary;
+  if (sections.length > 0) {
+    const fields = [edit.keyPoints, edit.actionItems, edit.decisions];
+    if (fields.some((field) => field !== undefined)) {
+      throw new ApiError(400, "This summary is edited through its sections");
+    }
+    const edits = new Map((edit.sections ?? []).map((section) => [section.key, section.content]));
+    const unknown = Array.from(edits.keys()).filter(
+      (key) => !sections.some((section) => section.key === key)
+    );
+    if (unknown.length) {
+      throw new ApiError(400, `Unknown summary sections: ${unknown.join(", ")}`);
+    }
+
+    const template = await findSummaryTemplate(userId, current.templateId);
+    summary = {
+      ...summaryFromSections(
+        sections.map((section) => ({
+          ...section,
+          content: edited(edits.get(section.key), section.content)
+        })),
+        template
+      ),
+      templateId: current.templateId
+    };
+  } else {
+    if (edit.sections?.length) {
+      throw new ApiError(400, "This summary has no sections");
+    }
+    summary = {
+      keyPoints: edited(edit.keyPoints, current.keyPoints),
+      actionItems: edited(edit.actionItems, current.actionItems),
+      decisions: edited(edit.decisions, current.decisions),
+      sections,
+      templateId: current.templateId
+    };
+  }
+
+  const version = await prisma.$transaction((tx) =>
+    saveSummaryVersion(tx, sessionId, summary, { source: "EDITED", createdById: userId })
+  );
+  return { ...summary, version };
+}
+
+/**
+ * Makes an earlier version current again by copying it into a new RESTORED
+ * version, so the history itself is never rewritten. Throws a 404 ApiError
+ * for unknown versions and 409 when the version is already current.
+ */
+export async function restoreSummaryVersion(sessionId: string, version: number, userId: string) {
+  const restored = await getSummaryVersion(sessionId, version);
+  const current = await prisma.summary.findUnique({
+    where: { sessionId },
+    select: { version: true }
+  });
+  if (current?.version === version) {
+    throw new ApiError(409, `Version ${version} is already the current summary`);
+  }
+
+  const summary: SessionSummary = {
+    keyPoints: restored.keyPoints,
+    actionItems: restored.actionItems,
+    decisions: restored.decisions,
+    sections: restored.sections,
+    templateId: restored.templateId
+  };
+  const next = await prisma.$transaction((tx) =>
+    saveSummaryVersion(tx, sessionId, summary, {
+      source: "RESTORED",
+      createdById: userId,
+      restoredFrom: version
+    })
+  );
+  return { ...summary, version: next };
+}
+
+/** Sections of a version; summaries from before templates get the Meeting ones. */
+function sectionsOf(summary: SessionSummary): SummarySection[] {
+  if (summary.sections.length > 0) return summary.sections;
+  return [
+    { key: "keyPoints", title: "Key points", content: summary.keyPoints },
+    { key: "actionItems", title: "Action items", content: summary.actionItems },
+    { key: "decisions", title: "Decisions", content: summary.decisions }
+  ];
+}
+
+/** Line diff from the longest common subsequence of both texts' lines. */
+function diffLines(before: string, after: string): SummaryDiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      common[i][j] =
+        a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: SummaryDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ type: "removed", text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ type: "added", text: b[j] });
+      j += 1;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Line-by-line diff of two versions, per section in the order of `to`;
+ * sections only `from` had come last. `to` defaults to the current version.
+ * Throws a 404 ApiError for unknown versions.
+ */
+export async function diffSummaryVersions(
+  sessionId: string,
+  from: number,
+  to?: number
+): Promise<SummaryDiff> {
+  if (to === undefined) {
+    const current = await prisma.summary.findUnique({
+      where: { sessionId },
+      select: { version: true }
+    });
+    if (!current) {
+      throw new ApiError(404, "This session has no summary yet");
+    }
+    to = current.version;
+  }
+
+  const [before, after] = await Promise.all([
+    getSummaryVersion(sessionId, from),
+    getSummaryVersion(sessionId, to)
+  ]);
+  const beforeSections = sectionsOf(before);
+  const afterSections = sectionsOf(after);
+  const contentIn = (sections: SummarySection[], key: string) =>
+    sections.find((section) => section.key === key)?.content ?? "";
+
+  const ordered = [
+    ...afterSections,
+    ...beforeSections.filter(
+      (section) => !afterSections.some((other) => other.key === section.key)
+    )
+  ];
+  return {
+    from,
+    to,
+    sections: ordered.map((section) => ({
+      key: section.key,
+      title: section.title,
+      changes: diffLines(
+        contentIn(beforeSections, section.key),
+        contentIn(afterSections, section.key)
+      )
+    }))
+  };
+}
@@ -0,0 +1,74 @@
+type ChunkTiming = {
+  startedAt: string | Date;
+  endedAt: string | Date;
+  startOffsetMs: number | null;
+  endOffsetMs: number | null;
+};
+
+type SegmentTiming = { startMs: number | null; endMs: number | null };
+
+/** A chunk or segment placed on the recording's timeline, in milliseconds. */
+export type Timed<T> = T & { startMs: number; endMs: number };
+
+/**
+ * Places chunks on the recording's timeline using the media offsets the
+ * recorder sent. Older chunks without offsets are laid back to back after
+ * the previous chunk, using their wall-clock duration.
+ */
+export function buildTimeline<T extends ChunkTiming>(chunks: T[]): Timed<T>[] {
+  let offset = 0;
+  return chunks.map((chunk) => {
+    if (chunk.startOffsetMs !== null && chunk.endOffsetMs !== null) {
+      offset = chunk.endOffsetMs;
+      return { ...chunk, startMs: chunk.startOffsetMs, endMs: chunk.endOffsetMs };
+    }
+    const duration = Math.max(
+      0,
+      new Date(chunk.endedAt).getTime() - new Date(chunk.startedAt).getTime()
+    );
+    const timed = { ...chunk, startMs: offset, endMs: offset + duration };
+    offset += duration;
+    return timed;
+  });
+}
+
+/**
+ * Places a chunk's speaker turns on the recording's timeline. Without
+ * provider timings, the chunk is split evenly between its turns.
+ */
+export function placeSegments<T extends SegmentTiming>(
+  chunk: { startMs: number; endMs: number },
+  segments: T[]
+): Timed<T>[] {
+  const share = (chunk.endMs - chunk.startMs) / Math.max(segments.length, 1);
+  return segments.map((segment, index) => ({
+    ...segment,
+    startMs: Math.min(chunk.startMs + (segment.startMs ?? share * index), chunk.endMs),
+    endMs: Math.min(chunk.startMs + (segment.endMs ?? share * (index + 1)), chunk.endMs)
+  }));
+}
+
+/**
+ * Length of a finished recording: the media offset where its last chunk
+ * ends, which excludes pauses, or the wall-clock time for sessions recorded
+ * before chunks carried offsets.
+ */
+export function recordingDurationMs(
+  lastEndOffsetMs: number | null,
+  startedAt: Date,
+  endedAt: Date | null
+) {
+  if (lastEndOffsetMs !== null) return lastEndOffsetMs;
+  return endedAt ? Math.max(0, endedAt.getTime() - startedAt.getTime()) : null;
+}
+
+/** "1:02:03" or "2:03". */
+export function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,61 @@
+import { prisma } from "@/lib/prisma";
+
+export type TranscriptLine = {
+  sequence: number;
+  /** Display name: the speaker's given name, else its label. */
+  speaker: string;
+  text: string;
+};
+
+/**
+ * Name shown for a segment: the user-given name of its aligned speaker, its
+ * session-wide label, or the raw per-chunk label as a last resort.
+ */
+export function speakerDisplayName(
+  speaker: { label: string; name: string | null } | null,
+  fallbackTag: string
+) {
+  return speaker?.name || speaker?.label || fallbackTag;
+}
+
+/**
+ * Reads a session's transcript as one line per speaker turn, in order, with
+ * speakers resolved to their display names. Chunks stored before segments
+ * existed contribute their chunk text as a single line. `exclude` skips
+ * chunks by sequence, e.g. the ones a rolling summary already covers.
+ */
+export async function loadTranscriptLines(
+  sessionId: string,
+  { exclude = [] }: { exclude?: number[] } = {}
+): Promise<TranscriptLine[]> {
+  const chunks = await prisma.transcriptChunk.findMany({
+    where: { sessionId, status: "TRANSCRIBED", sequence: { notIn: exclude } },
+    orderBy: { sequence: "asc" },
+    select: {
+      sequence: true,
+      speakerTag: true,
+      text: true,
+      segments: {
+        orderBy: { index: "asc" },
+        select: {
+          speakerTag: true,
+          text: true,
+          speaker: { select: { label: true, name: true } }
+        }
+      }
+    }
+  });
+
+  return chunks.flatMap((chunk): TranscriptLine[] => {
+    if (chunk.segments.length === 0) {
+      return chunk.text
+        ? [{ sequence: chunk.sequence, speaker: chunk.speakerTag, text: chunk.text }]
+        : [];
+    }
+    return chunk.segments.map((segment) => ({
+      sequence: chunk.sequence,
+      speaker: speakerDisplayName(segment.speaker, segment.speakerTag),
+      text: segment.text
+    }));
+  });
+}
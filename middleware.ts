@@ -1,23 +1,33 @@
-import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
+const PROTECTED_PREFIXES = ["/sessions"];
+
 /**
- * Middleware to protect routes and handle authentication
- * For now, we'll allow all routes - authentication can be added per-route
+ * Middleware to protect routes and handle authentication.
+ * Runs on the edge, so instead of importing the Prisma-backed auth instance
+ * it asks the Better Auth route handler whether the request's cookie maps to
+ * a live session.
  */
 export default async function middleware(request: NextRequest) {
   // Get the pathname from the request
-  const { pathname } = request.nextUrl;
+  const { pathname, search } = request.nextUrl;
+
+  if (!PROTECTED_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
 
-  // Allow public access for now - can add auth checks later
-  // Example: Protect /sessions route
-  // if (pathname.startsWith("/sessions")) {
-  //   const session = await auth.api.getSession({ headers: Object.fromEntries(request.headers) });
-  //   if (!session) {
-  //     return NextResponse.redirect(new URL("/login", request.url));
-  //   }
-  // }
+  const response = await fetch(new URL("/api/auth/session", request.url), {
+    headers: { cookie: request.headers.get("cookie") ?? "" },
+    cache: "no-store"
+  });
+  const session = response.ok ? await response.json() : null;
+
+  if (!session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("from", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
 
   // Continue with the request
   return NextResponse.next();
@@ -26,4 +36,3 @@ export default async function middleware(request: NextRequest) {
 export const config = {
   matcher: ["/((?!_next/static|_next/image|favicon.ico|api).*)"]
 };
-
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ChunkStatus" AS ENUM ('TRANSCRIBED', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "TranscriptChunk" ADD COLUMN     "status" "ChunkStatus" NOT NULL DEFAULT 'TRANSCRIBED',
+ADD COLUMN     "error" TEXT;
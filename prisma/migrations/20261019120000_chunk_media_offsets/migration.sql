@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TranscriptChunk" ADD COLUMN     "startOffsetMs" INTEGER,
+ADD COLUMN     "endOffsetMs" INTEGER;
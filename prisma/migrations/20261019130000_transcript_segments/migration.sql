@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "chunkId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "speakerTag" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "startMs" INTEGER,
+    "endMs" INTEGER,
+    "confidence" DOUBLE PRECISION,
+
+    CONSTRAINT "TranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranscriptSegment_chunkId_index_key" ON "TranscriptSegment"("chunkId", "index");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "TranscriptChunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
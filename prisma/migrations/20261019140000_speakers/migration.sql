@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "TranscriptSegment" ADD COLUMN     "speakerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Speaker" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "name" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Speaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Speaker_sessionId_label_key" ON "Speaker"("sessionId", "label");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "Speaker"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Speaker" ADD CONSTRAINT "Speaker_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ActionItemStatus" AS ENUM ('OPEN', 'DONE');
+
+-- CreateTable
+CREATE TABLE "ActionItem" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "owner" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "status" "ActionItemStatus" NOT NULL DEFAULT 'OPEN',
+    "sourceSequence" INTEGER,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ActionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActionItem_sessionId_idx" ON "ActionItem"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
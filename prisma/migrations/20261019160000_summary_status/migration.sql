@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "SummaryStatus" AS ENUM ('PENDING', 'GENERATING', 'READY', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "summaryStatus" "SummaryStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "summaryError" TEXT;
+
+-- Backfill sessions summarized before the status existed
+UPDATE "Session" SET "summaryStatus" = 'READY' WHERE "id" IN (SELECT "sessionId" FROM "Summary");
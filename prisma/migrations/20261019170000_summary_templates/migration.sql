@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "summaryTemplateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "sections" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "SummaryTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "instructions" TEXT,
+    "sections" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryTemplate_userId_name_key" ON "SummaryTemplate"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing summaries were all generated with the Meeting template
+UPDATE "Summary" SET
+  "templateId" = 'meeting',
+  "sections" = jsonb_build_array(
+    jsonb_build_object('key', 'keyPoints', 'title', 'Key points', 'content', "keyPoints"),
+    jsonb_build_object('key', 'actionItems', 'title', 'Action items', 'content', "actionItems"),
+    jsonb_build_object('key', 'decisions', 'title', 'Decisions', 'content', "decisions")
+  );
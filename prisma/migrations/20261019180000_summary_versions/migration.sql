@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "SummaryVersionSource" AS ENUM ('GENERATED', 'EDITED', 'RESTORED');
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "SummaryVersion" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "source" "SummaryVersionSource" NOT NULL,
+    "provider" TEXT,
+    "model" TEXT,
+    "templateId" TEXT,
+    "createdById" TEXT,
+    "restoredFrom" INTEGER,
+    "keyPoints" TEXT NOT NULL,
+    "actionItems" TEXT NOT NULL,
+    "decisions" TEXT NOT NULL,
+    "sections" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryVersion_sessionId_version_key" ON "SummaryVersion"("sessionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "SummaryVersion" ADD CONSTRAINT "SummaryVersion_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryVersion" ADD CONSTRAINT "SummaryVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing summaries become version 1 of their session's history
+INSERT INTO "SummaryVersion" (
+    "id", "sessionId", "version", "source", "templateId",
+    "keyPoints", "actionItems", "decisions", "sections", "createdAt"
+)
+SELECT
+    gen_random_uuid()::text, "sessionId", 1, 'GENERATED', "templateId",
+    "keyPoints", "actionItems", "decisions", "sections", "createdAt"
+FROM "Summary";
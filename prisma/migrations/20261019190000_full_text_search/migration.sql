@@ -0,0 +1,10 @@
+-- Expression indexes for lib/search.ts; Prisma cannot declare these in the
+-- schema, so the expressions there must match them exactly.
+
+-- CreateIndex
+CREATE INDEX "TranscriptChunk_text_search_idx" ON "TranscriptChunk"
+USING GIN (to_tsvector('english', "text"));
+
+-- CreateIndex
+CREATE INDEX "Summary_text_search_idx" ON "Summary"
+USING GIN (to_tsvector('english', "keyPoints" || ' ' || "actionItems" || ' ' || "decisions"));
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Session_userId_startedAt_idx" ON "Session"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "Session_tags_idx" ON "Session" USING GIN ("tags");
+
+-- Finished sessions: media offset of the last chunk, else wall-clock time
+UPDATE "Session" s SET "durationMs" = COALESCE(
+    (SELECT MAX(c."endOffsetMs") FROM "TranscriptChunk" c WHERE c."sessionId" = s."id"),
+    (EXTRACT(EPOCH FROM (s."endedAt" - s."startedAt")) * 1000)::INTEGER
+)
+WHERE s."status" IN ('COMPLETED', 'FAILED') AND s."endedAt" IS NOT NULL;
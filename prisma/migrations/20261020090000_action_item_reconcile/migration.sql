@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ActionItem" ADD COLUMN "extractedText" TEXT,
+ADD COLUMN "editedAt" TIMESTAMP(3);
+
+-- Backfill: existing items keep their current text as the extracted one
+UPDATE "ActionItem" SET "extractedText" = "text";
+
+ALTER TABLE "ActionItem" ALTER COLUMN "extractedText" SET NOT NULL;
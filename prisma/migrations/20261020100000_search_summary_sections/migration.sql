@@ -0,0 +1,13 @@
+-- Summaries are also searched in their template sections, which custom
+-- templates do not fold into keyPoints, actionItems or decisions. The
+-- expression must match lib/search.ts exactly.
+
+-- DropIndex
+DROP INDEX "Summary_text_search_idx";
+
+-- CreateIndex
+CREATE INDEX "Summary_text_search_idx" ON "Summary"
+USING GIN ((
+  to_tsvector('english', "keyPoints" || ' ' || "actionItems" || ' ' || "decisions")
+  || jsonb_to_tsvector('english', jsonb_path_query_array("sections", '$[*].content'), '["string"]')
+));
@@ -0,0 +1,98 @@
+import { extractWebmHeader, hasWebmHeader, isWebm, withWebmHeader } from "@/lib/audio/webm";
+import { prisma } from "@/lib/prisma";
+import {
+  chunkAudioKey,
+  contentTypeForKey,
+  getAudioStorage,
+  sessionAudioKey,
+  sessionHeaderKey
+} from "@/lib/storage";
+
+const storage = getAudioStorage();
+
+/** WebM headers of sessions being recorded, keyed by session id. */
+const headers = new Map<string, Buffer>();
+
+async function getSessionHeader(sessionId: string): Promise<Buffer | null> {
+  const cached = headers.get(sessionId);
+  if (cached) return cached;
+
+  // Another process (or this one, before a restart) may have stored it
+  const key = sessionHeaderKey(sessionId);
+  if (!(await storage.stat(key))) return null;
+  const header = await storage.get(key);
+  headers.set(sessionId, header);
+  return header;
+}
+
+type StoreChunkInput = {
+  sessionId: string;
+  sequence: number;
+  mimeType: string;
+  audio: Buffer;
+};
+
+/**
+ * Saves a chunk's raw audio and returns its storage key together with a
+ * standalone-decodable copy for the transcription model: headerless WebM
+ * chunks get the session's header prepended.
+ */
+export async function storeChunkAudio({ sessionId, sequence, mimeType, audio }: StoreChunkInput) {
+  const key = chunkAudioKey(sessionId, sequence, mimeType);
+  await storage.put(key, audio, mimeType);
+
+  if (!isWebm(mimeType)) {
+    return { key, playable: audio };
+  }
+
+  const header = extractWebmHeader(audio);
+  if (header) {
+    headers.set(sessionId, header);
+    await storage.put(sessionHeaderKey(sessionId), header, "audio/webm");
+    return { key, playable: audio };
+  }
+
+  const sessionHeader = await getSessionHeader(sessionId);
+  if (!sessionHeader) {
+    // eslint-disable-next-line no-console
+    console.warn(`No WebM header yet for session ${sessionId}, chunk ${sequence} sent as-is`);
+  }
+  return { key, playable: withWebmHeader(audio, sessionHeader) };
+}
+
+/**
+ * Concatenates the stored chunks of a session, in sequence order, into one
+ * playable file and records its key in `Session.audioArtifact`. Returns null
+ * when the session has no stored audio.
+ */
+export async function assembleSessionAudio(sessionId: string): Promise<string | null> {
+  const chunks = await prisma.transcriptChunk.findMany({
+    where: { sessionId, audioUrl: { not: null } },
+    orderBy: { sequence: "asc" },
+    select: { audioUrl: true }
+  });
+  const keys = chunks.map((chunk) => chunk.audioUrl!);
+  if (keys.length === 0) return null;
+
+  const contentType = contentTypeForKey(keys[0]);
+  const parts: Buffer[] = [];
+  for (const key of keys) {
+    parts.push(await storage.get(key));
+  }
+
+  // The first chunk may have been lost; the stored header still starts the file
+  if (isWebm(contentType) && !hasWebmHeader(parts[0])) {
+    const header = await getSessionHeader(sessionId);
+    if (header) parts.unshift(header);
+  }
+
+  const artifactKey = sessionAudioKey(sessionId, contentType);
+  await storage.put(artifactKey, Buffer.concat(parts), contentType);
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { audioArtifact: artifactKey }
+  });
+
+  headers.delete(sessionId);
+  return artifactKey;
+}
@@ -0,0 +1,57 @@
+import type { Socket } from "socket.io";
+
+import { auth, type AuthUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export type SocketData = {
+  user: AuthUser;
+};
+
+/**
+ * Resolves the Better Auth user behind a socket handshake from the session
+ * cookie the browser sends with it.
+ */
+async function getHandshakeUser(socket: Socket): Promise<AuthUser | null> {
+  const { cookie } = socket.handshake.headers;
+  if (!cookie) return null;
+
+  const session = await auth.api.getSession({ headers: new Headers({ cookie }) });
+  return session?.user ?? null;
+}
+
+/**
+ * Socket.io middleware rejecting connections without a valid Better Auth
+ * session. The user is stored on `socket.data.user` for the handlers.
+ */
+export async function authenticateSocket(
+  socket: Socket,
+  next: (error?: Error) => void
+) {
+  try {
+    const user = await getHandshakeUser(socket);
+    if (!user) {
+      next(new Error("Unauthorized"));
+      return;
+    }
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Socket authentication failed:", error);
+    next(new Error("Unauthorized"));
+  }
+}
+
+/**
+ * Loads a recording session only if it belongs to the socket's user.
+ * Returns null for both missing and foreign sessions so callers cannot
+ * probe for other users' session ids.
+ */
+export async function findOwnedSession(socket: Socket, sessionId: string) {
+  const { user } = socket.data as SocketData;
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { id: true, userId: true, status: true }
+  });
+  return session && session.userId === user.id ? session : null;
+}
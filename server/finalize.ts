@@ -0,0 +1,98 @@
+import { prisma } from "@/lib/prisma";
+import type { SummaryProvider } from "@/lib/providers";
+import { generateSessionSummary } from "@/lib/session-summary";
+import { recordingDurationMs } from "@/lib/timeline";
+import type { SessionSummary } from "@/types/session";
+
+import { assembleSessionAudio } from "./audio";
+import { alignSessionSpeakers } from "./speakers";
+
+export type FinalizeResult =
+  | { status: "COMPLETED"; summary: SessionSummary | null; reason?: string }
+  | { status: "FAILED"; reason: string };
+
+type FinalizeOptions = {
+  /** Set when the session is being recovered rather than stopped by the user. */
+  interrupted?: boolean;
+};
+
+async function measureDuration(sessionId: string) {
+  const [session, chunks] = await Promise.all([
+    prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { startedAt: true, endedAt: true }
+    }),
+    prisma.transcriptChunk.aggregate({ where: { sessionId }, _max: { endOffsetMs: true } })
+  ]);
+  return session
+    ? recordingDurationMs(chunks._max.endOffsetMs, session.startedAt, session.endedAt)
+    : null;
+}
+
+/**
+ * Assembles the session's audio file, aligns speakers across chunks,
+ * summarizes it from the chunks persisted in Postgres (see
+ * generateSessionSummary), records its duration and moves it to COMPLETED
+ * or FAILED. Used both by
+ * `session:stop` and by the reaper that recovers sessions orphaned by a
+ * crash.
+ */
+export async function finalizeSession(
+  sessionId: string,
+  summarizer: SummaryProvider,
+  { interrupted = false }: FinalizeOptions = {}
+): Promise<FinalizeResult> {
+  let result: FinalizeResult;
+
+  try {
+    await assembleSessionAudio(sessionId);
+  } catch (error) {
+    // A missing recording must not cost the user their summary
+    // eslint-disable-next-line no-console
+    console.error(`Failed to assemble audio for session ${sessionId}:`, error);
+  }
+
+  try {
+    await alignSessionSpeakers(sessionId, summarizer);
+  } catch (error) {
+    // Per-chunk labels are still usable, just less consistent
+    // eslint-disable-next-line no-console
+    console.error(`Speaker alignment failed for session ${sessionId}:`, error);
+  }
+
+  try {
+    const chunkCount = await prisma.transcriptChunk.count({ where: { sessionId } });
+    const summary = await generateSessionSummary(sessionId, summarizer);
+
+    if (!summary && interrupted) {
+      result = {
+        status: "FAILED",
+        reason: "Interrupted before any audio was transcribed"
+      };
+    } else {
+      result = {
+        status: "COMPLETED",
+        summary,
+        reason: interrupted
+          ? `Recovered after interruption from ${chunkCount} persisted chunks`
+          : undefined
+      };
+    }
+  } catch (error) {
+    result = {
+      status: "FAILED",
+      reason: `Summarization failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    };
+  }
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: {
+      status: result.status,
+      statusReason: result.reason ?? null,
+      durationMs: await measureDuration(sessionId)
+    }
+  });
+
+  return result;
+}
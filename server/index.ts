@@ -8,22 +8,102 @@ import { z } from "zod";
 
 import type * as Prisma from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { summarizeTranscript, transcribeAudio } from "@/lib/gemini";
+import {
+  flattenSegments,
+  getSummaryProvider,
+  getTranscriptionProvider
+} from "@/lib/providers";
+import { CircuitOpenError } from "@/lib/resilience";
+import { requireSummaryTemplate } from "@/lib/summary-templates";
+import type {
+  ChunkAck,
+  QueueStatus,
+  RejoinAck,
+  SummaryPartial,
+  SummarySection,
+  TranscriptSegment,
+  TranscriptUpdate
+} from "@/types/session";
+
+import { storeChunkAudio } from "./audio";
+import { authenticateSocket, findOwnedSession, type SocketData } from "./auth";
+import { finalizeSession, type FinalizeResult } from "./finalize";
+import { createLiveSummarizer } from "./live-summary";
+import { keepProcessingClaim, startSessionReaper } from "./reaper";
+import { getSpeakerHints, resolveSpeakerIds } from "./speakers";
+import { createTranscriptionQueue, QueueFullError } from "./transcription-queue";
 
 const PORT = Number(process.env.SOCKET_SERVER_PORT ?? 3100);
+const TRANSCRIPTION_CONCURRENCY = Number(process.env.TRANSCRIPTION_CONCURRENCY ?? 4);
+const BACKPRESSURE_HIGH_WATER = Number(process.env.BACKPRESSURE_HIGH_WATER ?? 10);
+
+const transcriber = getTranscriptionProvider();
+const summarizer = getSummaryProvider();
 
 const app = express();
 const httpServer = http.createServer(app);
 
+/** The web app's origin, the one Better Auth issues session cookies for. */
+const APP_ORIGIN = new URL(process.env.BETTER_AUTH_URL ?? "http://localhost:3000").origin;
+
 const io = new Server(httpServer, {
-  cors: { origin: "*" }
+  cors: { origin: APP_ORIGIN, credentials: true },
+  // `cors` only covers polling; browsers send Origin on WebSocket upgrades
+  // too, so other sites cannot open a socket with the user's cookie
+  allowRequest: (req, callback) => {
+    const { origin } = req.headers;
+    callback(null, !origin || origin === APP_ORIGIN);
+  }
+});
+
+/** Sessions whose queue crossed the high-water mark and has not drained yet. */
+const backpressured = new Set<string>();
+
+const transcriptionQueue = createTranscriptionQueue({
+  concurrency: TRANSCRIPTION_CONCURRENCY,
+  maxQueuedPerSession: Number(process.env.TRANSCRIPTION_QUEUE_PER_SESSION ?? 30),
+  maxQueuedTotal: Number(process.env.TRANSCRIPTION_QUEUE_TOTAL ?? 500),
+  onDepthChange: ({ sessionId, queued, inFlight }) => {
+    // Hysteresis: raise at the high-water mark, clear at half of it
+    if (queued >= BACKPRESSURE_HIGH_WATER) {
+      backpressured.add(sessionId);
+    } else if (queued <= BACKPRESSURE_HIGH_WATER / 2) {
+      backpressured.delete(sessionId);
+    }
+
+    io.to(sessionId).emit("session:queue", {
+      sessionId,
+      queued,
+      inFlight,
+      backpressure: backpressured.has(sessionId)
+    } satisfies QueueStatus);
+  }
+});
+
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// Internal only: queue depth and connection counts are for this machine
+app.get("/stats", (req, res) => {
+  if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? "")) {
+    res.sendStatus(404);
+    return;
+  }
+  res.json({
+    queue: transcriptionQueue.stats(),
+    backpressuredSessions: backpressured.size,
+    connections: io.engine.clientsCount
+  });
 });
 
 const startSchema = z.object({
   sessionId: z.string().uuid(),
-  userId: z.string(),
-  userEmail: z.string().email(),
-  source: z.enum(["MIC", "TAB"])
+  source: z.enum(["MIC", "TAB"]),
+  /** Summary template id; the Meeting template when omitted. */
+  templateId: z.string().min(1).optional()
+});
+
+const sessionRefSchema = z.object({
+  sessionId: z.string().uuid()
 });
 
 const chunkSchema = z.object({
@@ -31,17 +111,224 @@ const chunkSchema = z.object({
   sequence: z.number().int().nonnegative(),
   startedAt: z.number(),
   endedAt: z.number(),
+  // Optional for chunks queued by clients that predate media offsets
+  startOffsetMs: z.number().int().nonnegative().optional(),
+  endOffsetMs: z.number().int().nonnegative().optional(),
   speakerTag: z.string().default("speaker"),
   audio: z.string().min(10), // base64
+  mimeType: z.string().default("audio/webm"),
   text: z.string().optional(),
   confidence: z.number().optional()
 });
 
+const rejoinSchema = z.object({
+  sessionId: z.string().uuid(),
+  lastSequence: z.number().int().nonnegative().default(0)
+});
+
 type ChunkPayload = z.infer<typeof chunkSchema>;
 
-const buffer = new Map<string, ChunkPayload[]>();
+/** Sessions in these states no longer accept audio. */
+const CLOSED_STATUSES: Prisma.SessionStatus[] = ["COMPLETED", "FAILED"];
+
+/**
+ * Chunks currently being transcribed/persisted, per session. Only in-flight
+ * work lives here; everything else is read back from Postgres, so memory no
+ * longer grows with meeting length.
+ */
+const inFlight = new Map<string, Set<Promise<void>>>();
+
+function trackInFlight(sessionId: string, task: Promise<void>) {
+  let tasks = inFlight.get(sessionId);
+  if (!tasks) {
+    tasks = new Set();
+    inFlight.set(sessionId, tasks);
+  }
+  tasks.add(task);
+  task.finally(() => {
+    tasks.delete(task);
+    if (tasks.size === 0 && inFlight.get(sessionId) === tasks) {
+      inFlight.delete(sessionId);
+    }
+  });
+}
+
+async function waitForInFlight(sessionId: string) {
+  await Promise.allSettled(inFlight.get(sessionId) ?? []);
+}
+
+/** Sessions this process is currently summarizing after session:stop. */
+const finalizing = new Set<string>();
+
+function isSessionLive(sessionId: string) {
+  return (
+    finalizing.has(sessionId) ||
+    inFlight.has(sessionId) ||
+    (io.sockets.adapter.rooms.get(sessionId)?.size ?? 0) > 0
+  );
+}
+
+const liveSummaries = createLiveSummarizer({
+  summarizer,
+  onSummary: (partial) => {
+    io.to(partial.sessionId).emit("summary:partial", partial satisfies SummaryPartial);
+  }
+});
+
+function emitFinalized(sessionId: string, result: FinalizeResult) {
+  liveSummaries.clear(sessionId);
+  if (result.status === "COMPLETED") {
+    io.to(sessionId).emit("session:status", {
+      status: "COMPLETED",
+      summary: result.summary
+    });
+  } else {
+    io.to(sessionId).emit("session:error", {
+      message: "Failed to process summary",
+      reason: result.reason
+    });
+  }
+}
+
+/**
+ * Stores the chunk's raw audio, transcribes it into speaker segments (unless
+ * the client already sent text) and writes it to Postgres straight away. The
+ * upsert on (sessionId, sequence) keeps retries idempotent. A provider
+ * failure is recorded on the chunk instead of being stored as an empty line,
+ * so silence and errors stay distinguishable.
+ */
+async function processChunk(payload: ChunkPayload) {
+  let segments: TranscriptSegment[] = payload.text
+    ? [{ speakerTag: payload.speakerTag, text: payload.text, confidence: payload.confidence }]
+    : [];
+  let status: Prisma.ChunkStatus = "TRANSCRIBED";
+  let error: string | undefined;
+
+  // Storage failures reject the chunk so the client retries it
+  const { key: audioUrl, playable } = await storeChunkAudio({
+    sessionId: payload.sessionId,
+    sequence: payload.sequence,
+    mimeType: payload.mimeType,
+    audio: Buffer.from(payload.audio, "base64")
+  });
+
+  if (!payload.text) {
+    try {
+      const transcription = await transcriber.transcribe(
+        playable.toString("base64"),
+        payload.mimeType,
+        await getSpeakerHints(payload.sessionId)
+      );
+      segments = transcription.segments;
+    } catch (cause) {
+      status = cause instanceof CircuitOpenError ? "SKIPPED" : "FAILED";
+      error = cause instanceof Error ? cause.message : String(cause);
+      // eslint-disable-next-line no-console
+      console.error(`Transcription ${status.toLowerCase()} for chunk ${payload.sequence}:`, cause);
+    }
+  }
+
+  const { text, speakerTag, confidence } = flattenSegments(segments);
+
+  await prisma.$transaction(async (tx) => {
+    const chunk = await tx.transcriptChunk.upsert({
+      where: {
+        sessionId_sequence: {
+          sessionId: payload.sessionId,
+          sequence: payload.sequence
+        }
+      },
+      update: { text, speakerTag, confidence, status, error: error ?? null, audioUrl },
+      create: {
+        sessionId: payload.sessionId,
+        sequence: payload.sequence,
+        text,
+        speakerTag,
+        startedAt: new Date(payload.startedAt),
+        endedAt: new Date(payload.endedAt),
+        startOffsetMs: payload.startOffsetMs,
+        endOffsetMs: payload.endOffsetMs,
+        confidence,
+        status,
+        error,
+        audioUrl
+      },
+      select: { id: true }
+    });
+
+    const speakerIds = await resolveSpeakerIds(
+      tx,
+      payload.sessionId,
+      segments.map((segment) => segment.speakerTag)
+    );
+
+    // A retried chunk replaces its segments rather than appending to them
+    await tx.transcriptSegment.deleteMany({ where: { chunkId: chunk.id } });
+    await tx.transcriptSegment.createMany({
+      data: segments.map((segment, index) => ({
+        chunkId: chunk.id,
+        index,
+        speakerTag: segment.speakerTag,
+        speakerId: speakerIds.get(segment.speakerTag),
+        text: segment.text,
+        startMs: segment.startMs,
+        endMs: segment.endMs,
+        confidence: segment.confidence
+      }))
+    });
+  });
+
+  // Emit transcription update to all clients in session
+  io.to(payload.sessionId).emit("transcription:update", {
+    sessionId: payload.sessionId,
+    sequence: payload.sequence,
+    text,
+    speakerTag,
+    confidence,
+    status,
+    error,
+    segments,
+    startOffsetMs: payload.startOffsetMs,
+    endOffsetMs: payload.endOffsetMs
+  } satisfies TranscriptUpdate);
+
+  if (status === "TRANSCRIBED" && !finalizing.has(payload.sessionId)) {
+    liveSummaries.chunkTranscribed(payload.sessionId);
+  }
+}
+
+// Every connection must carry a valid Better Auth session
+io.use(authenticateSocket);
 
 io.on("connection", (socket) => {
+  const { user } = socket.data as SocketData;
+
+  /**
+   * Validates a `{ sessionId }` payload and checks the session belongs to the
+   * connected user, reporting a session:error otherwise (also when the lookup
+   * itself fails, which must not reject the listener).
+   */
+  const requireOwnedSession = async (rawPayload: unknown) => {
+    const parsed = sessionRefSchema.safeParse(rawPayload);
+    if (!parsed.success) {
+      socket.emit("session:error", { message: parsed.error.message });
+      return null;
+    }
+    try {
+      const session = await findOwnedSession(socket, parsed.data.sessionId);
+      if (!session) {
+        socket.emit("session:error", { message: "Session not found" });
+        return null;
+      }
+      return session;
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to load session ${parsed.data.sessionId}:`, error);
+      socket.emit("session:error", { message: "Failed to load session" });
+      return null;
+    }
+  };
+
   socket.on("session:start", async (rawPayload) => {
     const parsed = startSchema.safeParse(rawPayload);
     if (!parsed.success) {
@@ -49,173 +336,276 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const { sessionId, userId, userEmail, source } = parsed.data;
+    const { sessionId, source, templateId } = parsed.data;
 
-    buffer.set(sessionId, []);
+    try {
+      const existing = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { userId: true }
+      });
+      if (existing && existing.userId !== user.id) {
+        socket.emit("session:error", { message: "Session not found" });
+        return;
+      }
 
-    await prisma.user.upsert({
-      where: { id: userId },
-      create: { id: userId, email: userEmail },
-      update: { email: userEmail }
-    });
+      if (templateId) {
+        try {
+          await requireSummaryTemplate(user.id, templateId);
+        } catch (error) {
+          socket.emit("session:error", {
+            message: error instanceof Error ? error.message : "Unknown summary template"
+          });
+          return;
+        }
+      }
 
-    await prisma.session.upsert({
-      where: { id: sessionId },
-      create: { id: sessionId, userId, status: "RECORDING", source },
-      update: { status: "RECORDING" }
-    });
+      await prisma.session.upsert({
+        where: { id: sessionId },
+        create: {
+          id: sessionId,
+          userId: user.id,
+          status: "RECORDING",
+          source,
+          summaryTemplateId: templateId
+        },
+        update: { status: "RECORDING" }
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to start session ${sessionId}:`, error);
+      socket.emit("session:error", { message: "Failed to start session" });
+      return;
+    }
 
     socket.join(sessionId);
     socket.emit("session:ack", { sessionId, status: "RECORDING" });
   });
 
-  socket.on("session:chunk", async (rawPayload) => {
-    const parsed = chunkSchema.safeParse(rawPayload);
-    if (!parsed.success) {
-      socket.emit("session:error", { message: parsed.error.message });
-      return;
-    }
-    const payload = parsed.data;
-    
-    // Store chunk in buffer
-    const store = buffer.get(payload.sessionId);
-    if (!store) {
-      buffer.set(payload.sessionId, [payload]);
-    } else {
-      store.push(payload);
-    }
-
-    // Transcribe audio if text not provided
-    let transcriptText = payload.text;
-    let speakerTag = payload.speakerTag;
-    let confidence = payload.confidence;
+  socket.on(
+    "session:chunk",
+    async (rawPayload, ack?: (response: ChunkAck) => void) => {
+      const respond = typeof ack === "function" ? ack : undefined;
+
+      const parsed = chunkSchema.safeParse(rawPayload);
+      if (!parsed.success) {
+        if (respond) {
+          respond({ ok: false, error: parsed.error.message, retryable: false });
+        } else {
+          socket.emit("session:error", { message: parsed.error.message });
+        }
+        return;
+      }
+      const payload = parsed.data;
 
-    if (!transcriptText && payload.audio) {
       try {
-        const transcription = await transcribeAudio(
-          payload.audio,
-          "audio/webm"
+        const session = await findOwnedSession(socket, payload.sessionId);
+        if (!session || CLOSED_STATUSES.includes(session.status)) {
+          respond?.({
+            ok: false,
+            sequence: payload.sequence,
+            // session:start may still be in flight for a brand-new session
+            error: session ? `Session is ${session.status}` : "Unknown session",
+            retryable: !session
+          });
+          return;
+        }
+
+        const task = transcriptionQueue.enqueue(
+          payload.sessionId,
+          payload.sequence,
+          () => processChunk(payload)
         );
-        transcriptText = transcription.text;
-        speakerTag = transcription.speakerTag;
-        confidence = transcription.confidence;
-
-        // Update payload with transcription
-        payload.text = transcriptText;
-        payload.speakerTag = speakerTag;
-        payload.confidence = confidence;
+        trackInFlight(payload.sessionId, task);
+
+        await task;
+        respond?.({ ok: true, sequence: payload.sequence });
       } catch (error) {
+        if (error instanceof QueueFullError) {
+          // Backpressure: the client keeps the chunk and retries later
+          respond?.({
+            ok: false,
+            sequence: payload.sequence,
+            error: error.message,
+            retryable: true
+          });
+          return;
+        }
         // eslint-disable-next-line no-console
-        console.error(`Transcription failed for chunk ${payload.sequence}:`, error);
-        transcriptText = "";
+        console.error(`Failed to persist chunk ${payload.sequence}:`, error);
+        respond?.({
+          ok: false,
+          sequence: payload.sequence,
+          error: "Failed to store chunk",
+          retryable: true
+        });
       }
     }
+  );
+
+  /**
+   * A reconnected client gets a new socket id and has left the session room.
+   * Re-join it, replay every persisted update after `lastSequence` and the
+   * latest rolling summary, then report the current status (and summary, if
+   * stop finished meanwhile).
+   */
+  socket.on(
+    "session:rejoin",
+    async (rawPayload, ack?: (response: RejoinAck) => void) => {
+      const respond = typeof ack === "function" ? ack : undefined;
+
+      const parsed = rejoinSchema.safeParse(rawPayload);
+      if (!parsed.success) {
+        respond?.({ ok: false, error: parsed.error.message });
+        return;
+      }
+      const { sessionId, lastSequence } = parsed.data;
 
-    // Emit transcription update to all clients in session
-    io.to(payload.sessionId).emit("transcription:update", {
-      sessionId: payload.sessionId,
-      sequence: payload.sequence,
-      text: transcriptText ?? "",
-      speakerTag,
-      confidence
-    });
-  });
-
-  socket.on("session:pause", async ({ sessionId }) => {
-    if (!sessionId) return;
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: { status: "PAUSED" }
-    });
-    io.to(sessionId).emit("session:status", { status: "PAUSED" });
-  });
-
-  socket.on("session:resume", async ({ sessionId }) => {
-    if (!sessionId) return;
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: { status: "RECORDING" }
-    });
-    io.to(sessionId).emit("session:status", { status: "RECORDING" });
-  });
-
-  socket.on("session:stop", async ({ sessionId }) => {
-    if (!sessionId) return;
-    io.to(sessionId).emit("session:status", { status: "PROCESSING" });
-    const chunks = buffer.get(sessionId) ?? [];
-    const transcript = chunks.map((chunk) => chunk.text).join("\n");
-
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: { status: "PROCESSING", endedAt: new Date() }
-    });
-
-    try {
-      const summary = transcript
-        ? await summarizeTranscript(transcript)
-        : null;
-
-      await prisma.$transaction(async (tx: typeof prisma) => {
-        for (const chunk of chunks) {
-          await tx.transcriptChunk.upsert({
-            where: {
-              sessionId_sequence: {
-                sessionId: chunk.sessionId,
-                sequence: chunk.sequence
+      try {
+        const session = await prisma.session.findFirst({
+          where: { id: sessionId, userId: user.id },
+          select: {
+            status: true,
+            summary: {
+              select: {
+                keyPoints: true,
+                actionItems: true,
+                decisions: true,
+                sections: true,
+                templateId: true
               }
-            },
-            update: {
-              text: chunk.text ?? "",
-              speakerTag: chunk.speakerTag,
-              confidence: chunk.confidence
-            },
-            create: {
-              sessionId: chunk.sessionId,
-              sequence: chunk.sequence,
-              text: chunk.text ?? "",
-              speakerTag: chunk.speakerTag,
-              startedAt: new Date(chunk.startedAt),
-              endedAt: new Date(chunk.endedAt),
-              confidence: chunk.confidence
             }
-          });
+          }
+        });
+        if (!session) {
+          respond?.({ ok: false, error: "Unknown session" });
+          return;
         }
 
-        if (summary) {
-          await tx.summary.upsert({
-            where: { sessionId },
-            update: summary,
-            create: { sessionId, ...summary }
-          });
+        socket.join(sessionId);
+
+        const missed = await prisma.transcriptChunk.findMany({
+          where: { sessionId, sequence: { gt: lastSequence } },
+          orderBy: { sequence: "asc" },
+          include: { segments: { orderBy: { index: "asc" } } }
+        });
+        for (const chunk of missed) {
+          socket.emit("transcription:update", {
+            sessionId,
+            sequence: chunk.sequence,
+            text: chunk.text,
+            speakerTag: chunk.speakerTag,
+            confidence: chunk.confidence ?? undefined,
+            status: chunk.status,
+            error: chunk.error ?? undefined,
+            segments: chunk.segments.map((segment) => ({
+              speakerTag: segment.speakerTag,
+              text: segment.text,
+              startMs: segment.startMs ?? undefined,
+              endMs: segment.endMs ?? undefined,
+              confidence: segment.confidence ?? undefined
+            })),
+            startOffsetMs: chunk.startOffsetMs ?? undefined,
+            endOffsetMs: chunk.endOffsetMs ?? undefined
+          } satisfies TranscriptUpdate);
         }
-      });
 
-      await prisma.session.update({
-        where: { id: sessionId },
-        data: { status: "COMPLETED" }
-      });
+        socket.emit("session:queue", {
+          ...transcriptionQueue.depth(sessionId),
+          backpressure: backpressured.has(sessionId)
+        } satisfies QueueStatus);
+
+        const partial = liveSummaries.latest(sessionId);
+        if (partial) socket.emit("summary:partial", partial satisfies SummaryPartial);
+
+        respond?.({
+          ok: true,
+          status: session.status,
+          summary: session.summary
+            ? {
+                ...session.summary,
+                sections: session.summary.sections as SummarySection[]
+              }
+            : null,
+          replayed: missed.length
+        });
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to rejoin session ${sessionId}:`, error);
+        respond?.({ ok: false, error: "Failed to rejoin session" });
+      }
+    }
+  );
 
-      io.to(sessionId).emit("session:status", {
-        status: "COMPLETED",
-        summary
+  /** Moves a recording between RECORDING and PAUSED; closed sessions stay closed. */
+  const setRecordingStatus = async (rawPayload: unknown, status: "RECORDING" | "PAUSED") => {
+    const session = await requireOwnedSession(rawPayload);
+    if (!session) return;
+    const sessionId = session.id;
+    try {
+      const updated = await prisma.session.updateMany({
+        where: { id: sessionId, status: { in: ["RECORDING", "PAUSED"] } },
+        data: { status }
       });
+      if (updated.count === 1) {
+        io.to(sessionId).emit("session:status", { status });
+      }
     } catch (error) {
-      await prisma.session.update({
-        where: { id: sessionId },
-        data: { status: "FAILED" }
-      });
-      io.to(sessionId).emit("session:error", {
-        message: "Failed to process summary",
-        error
+      // eslint-disable-next-line no-console
+      console.error(`Failed to set session ${sessionId} to ${status}:`, error);
+      socket.emit("session:error", { message: "Failed to update session" });
+    }
+  };
+
+  socket.on("session:pause", (rawPayload) => setRecordingStatus(rawPayload, "PAUSED"));
+
+  socket.on("session:resume", (rawPayload) => setRecordingStatus(rawPayload, "RECORDING"));
+
+  socket.on("session:stop", async (rawPayload) => {
+    const session = await requireOwnedSession(rawPayload);
+    if (!session) return;
+    const sessionId = session.id;
+    // A repeated stop (double click, or deferred and re-sent after a
+    // reconnect) must not summarize the session a second time
+    if (finalizing.has(sessionId)) return;
+
+    finalizing.add(sessionId);
+    let stopHeartbeat: (() => void) | undefined;
+    try {
+      // Claims the stop atomically: a session already finished, e.g. by the
+      // reaper, or stopped from another tab is left alone
+      const claimed = await prisma.session.updateMany({
+        where: { id: sessionId, status: { in: ["RECORDING", "PAUSED"] } },
+        data: { status: "PROCESSING", endedAt: new Date() }
       });
+      if (claimed.count !== 1) return;
+      stopHeartbeat = keepProcessingClaim(sessionId);
+      io.to(sessionId).emit("session:status", { status: "PROCESSING" });
+
+      // Chunks that arrived just before stop may still be transcribing
+      await waitForInFlight(sessionId);
+
+      emitFinalized(sessionId, await finalizeSession(sessionId, summarizer));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to stop session ${sessionId}:`, error);
+      socket.emit("session:error", { message: "Failed to stop session" });
     } finally {
-      buffer.delete(sessionId);
+      stopHeartbeat?.();
+      finalizing.delete(sessionId);
     }
   });
 });
 
+startSessionReaper({
+  summarizer,
+  isLive: isSessionLive,
+  onFinalized: emitFinalized
+});
+
 httpServer.listen(PORT, () => {
   // eslint-disable-next-line no-console
-  console.log(`Socket server listening on :${PORT}`);
+  console.log(
+    `Socket server listening on :${PORT} (transcription: ${transcriber.name}, summary: ${summarizer.name})`
+  );
 });
 
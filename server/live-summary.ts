@@ -0,0 +1,128 @@
+import type { SummaryProvider } from "@/lib/providers";
+import { extendSummary, renderSummary } from "@/lib/summarization";
+import { resolveSessionTemplate } from "@/lib/summary-templates";
+import { loadTranscriptLines } from "@/lib/transcript";
+import type { StructuredSummary, SummaryPartial, SummaryTemplate } from "@/types/session";
+
+/** Transcribed chunks between two rolling summaries; 0 turns the count trigger off. */
+const EVERY_CHUNKS = Number(process.env.LIVE_SUMMARY_EVERY_CHUNKS ?? 12);
+/** Time between two rolling summaries; 0 turns the time trigger off. */
+const INTERVAL_MS = Number(process.env.LIVE_SUMMARY_INTERVAL_MS ?? 2 * 60_000);
+/**
+ * State of a session without transcribed chunks for this long is dropped,
+ * e.g. when another process finalized it or it was deleted.
+ */
+const IDLE_EVICT_MS = Number(process.env.LIVE_SUMMARY_IDLE_MS ?? 30 * 60_000);
+
+type LiveSummaryState = {
+  /** Resolved on the first run; the template cannot change while recording. */
+  template: SummaryTemplate | null;
+  summary: StructuredSummary | null;
+  partial: SummaryPartial | null;
+  /** Chunk sequences already folded into `summary`. */
+  covered: Set<number>;
+  pendingChunks: number;
+  lastRunAt: number;
+  lastChunkAt: number;
+  running: boolean;
+};
+
+type LiveSummarizerOptions = {
+  summarizer: SummaryProvider;
+  onSummary: (partial: SummaryPartial) => void;
+};
+
+/**
+ * Keeps a rolling summary per recording session. Every
+ * LIVE_SUMMARY_EVERY_CHUNKS transcribed chunks or LIVE_SUMMARY_INTERVAL_MS,
+ * whichever comes first, the chunks not covered yet are folded into the
+ * previous summary, so each run only sends the new part of the meeting.
+ * State lives in memory: it is a convenience while recording, the final
+ * summary is still built from Postgres on stop. It is cleared on finalize
+ * and evicted after LIVE_SUMMARY_IDLE_MS without transcribed chunks.
+ */
+export function createLiveSummarizer({ summarizer, onSummary }: LiveSummarizerOptions) {
+  const sessions = new Map<string, LiveSummaryState>();
+
+  const evictIdle = () => {
+    const cutoff = Date.now() - IDLE_EVICT_MS;
+    for (const [sessionId, state] of Array.from(sessions.entries())) {
+      if (state.lastChunkAt < cutoff) sessions.delete(sessionId);
+    }
+  };
+  setInterval(evictIdle, Math.min(IDLE_EVICT_MS, 60_000)).unref();
+
+  const run = async (sessionId: string, state: LiveSummaryState) => {
+    state.running = true;
+    state.pendingChunks = 0;
+    try {
+      const lines = await loadTranscriptLines(sessionId, {
+        exclude: Array.from(state.covered)
+      });
+      if (lines.length === 0) return;
+
+      state.template ??= await resolveSessionTemplate(sessionId);
+      const summary = await extendSummary(state.summary, lines, summarizer, state.template);
+      // Stopped (or cleared) while the model was busy
+      if (sessions.get(sessionId) !== state) return;
+
+      lines.forEach((line) => state.covered.add(line.sequence));
+      state.summary = summary;
+      state.partial = {
+        sessionId,
+        summary: renderSummary(summary, state.template),
+        throughSequence: Math.max(...Array.from(state.covered)),
+        generatedAt: new Date().toISOString()
+      };
+      onSummary(state.partial);
+    } catch (error) {
+      // The next trigger retries with the same uncovered chunks
+      // eslint-disable-next-line no-console
+      console.warn(`Live summary failed for session ${sessionId}:`, error);
+    } finally {
+      state.running = false;
+      state.lastRunAt = Date.now();
+    }
+  };
+
+  return {
+    /** Counts a transcribed chunk and starts a run when one is due. */
+    chunkTranscribed(sessionId: string) {
+      if (EVERY_CHUNKS <= 0 && INTERVAL_MS <= 0) return;
+
+      let state = sessions.get(sessionId);
+      if (!state) {
+        state = {
+          template: null,
+          summary: null,
+          partial: null,
+          covered: new Set(),
+          pendingChunks: 0,
+          lastRunAt: Date.now(),
+          lastChunkAt: Date.now(),
+          running: false
+        };
+        sessions.set(sessionId, state);
+      }
+
+      state.lastChunkAt = Date.now();
+      state.pendingChunks += 1;
+      if (state.running) return;
+
+      const due =
+        (EVERY_CHUNKS > 0 && state.pendingChunks >= EVERY_CHUNKS) ||
+        (INTERVAL_MS > 0 && Date.now() - state.lastRunAt >= INTERVAL_MS);
+      if (due) void run(sessionId, state);
+    },
+
+    /** Latest rolling summary, replayed to clients that rejoin mid-meeting. */
+    latest(sessionId: string) {
+      return sessions.get(sessionId)?.partial ?? null;
+    },
+
+    /** Drops a session's state once it has been finalized. */
+    clear(sessionId: string) {
+      sessions.delete(sessionId);
+    }
+  };
+}
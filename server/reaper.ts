@@ -0,0 +1,154 @@
+import { prisma } from "@/lib/prisma";
+import type { SummaryProvider } from "@/lib/providers";
+
+import { finalizeSession, type FinalizeResult } from "./finalize";
+
+const REAPER_INTERVAL_MS = Number(process.env.SESSION_REAPER_INTERVAL_MS ?? 60_000);
+const IDLE_TIMEOUT_MS = Number(process.env.SESSION_IDLE_TIMEOUT_MS ?? 10 * 60_000);
+const PROCESSING_HEARTBEAT_MS = Number(process.env.SESSION_HEARTBEAT_INTERVAL_MS ?? 60_000);
+/** A PROCESSING session without a heartbeat for this long lost its process. */
+const PROCESSING_TIMEOUT_MS = Number(
+  process.env.SESSION_PROCESSING_TIMEOUT_MS ?? 5 * PROCESSING_HEARTBEAT_MS
+);
+
+type ReaperOptions = {
+  summarizer: SummaryProvider;
+  /** True while this process still owns the session (sockets in the room, work in flight). */
+  isLive: (sessionId: string) => boolean;
+  onFinalized: (sessionId: string, result: FinalizeResult) => void;
+};
+
+/**
+ * Finds sessions stuck in RECORDING/PAUSED/PROCESSING that no live process
+ * owns any more, stamps `interruptionAt` and finalizes them from whatever
+ * chunks were persisted.
+ *
+ * - PROCESSING is orphaned when its `updatedAt` heartbeat (see
+ *   keepProcessingClaim) is older than SESSION_PROCESSING_TIMEOUT_MS, so a
+ *   session another replica is still summarizing is left alone.
+ * - RECORDING/PAUSED is orphaned when nobody is connected to it and nothing
+ *   has arrived for SESSION_IDLE_TIMEOUT_MS.
+ *
+ * Claims only succeed while `updatedAt` is unchanged since the scan.
+ */
+export async function reapOrphanedSessions({
+  summarizer,
+  isLive,
+  onFinalized
+}: ReaperOptions) {
+  const candidates = await prisma.session.findMany({
+    where: { status: { in: ["RECORDING", "PAUSED", "PROCESSING"] } },
+    select: {
+      id: true,
+      status: true,
+      updatedAt: true,
+      transcript: {
+        orderBy: { sequence: "desc" },
+        take: 1,
+        select: { createdAt: true }
+      }
+    }
+  });
+
+  const now = Date.now();
+
+  for (const candidate of candidates) {
+    if (isLive(candidate.id)) continue;
+
+    const lastChunkAt = candidate.transcript[0]?.createdAt;
+    const lastActivity =
+      lastChunkAt && lastChunkAt > candidate.updatedAt
+        ? lastChunkAt
+        : candidate.updatedAt;
+
+    const timeout = candidate.status === "PROCESSING" ? PROCESSING_TIMEOUT_MS : IDLE_TIMEOUT_MS;
+    if (now - lastActivity.getTime() < timeout) {
+      continue;
+    }
+
+    // One failing session must not stop the others from being recovered; a
+    // claimed one is retried once its heartbeat is stale again
+    try {
+      // Claim the session; another replica, a heartbeat or a late session:stop
+      // may have won
+      const claimed = await prisma.session.updateMany({
+        where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+        data: {
+          status: "PROCESSING",
+          interruptionAt: lastActivity,
+          // PROCESSING sessions already got endedAt from session:stop
+          ...(candidate.status !== "PROCESSING" && { endedAt: lastActivity })
+        }
+      });
+      if (claimed.count === 0) continue;
+
+      // eslint-disable-next-line no-console
+      console.warn(
+        `Recovering orphaned session ${candidate.id} (was ${candidate.status}, last activity ${lastActivity.toISOString()})`
+      );
+
+      const stopHeartbeat = keepProcessingClaim(candidate.id);
+      try {
+        const result = await finalizeSession(candidate.id, summarizer, {
+          interrupted: true
+        });
+        onFinalized(candidate.id, result);
+      } finally {
+        stopHeartbeat();
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to recover orphaned session ${candidate.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Touches a PROCESSING session's `updatedAt` every
+ * SESSION_HEARTBEAT_INTERVAL_MS while this process finalizes it, so reapers
+ * in other processes do not take it over. Returns a function that stops the
+ * heartbeat.
+ */
+export function keepProcessingClaim(sessionId: string) {
+  const timer = setInterval(() => {
+    prisma.session
+      .updateMany({
+        where: { id: sessionId, status: "PROCESSING" },
+        data: { updatedAt: new Date() }
+      })
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error(`Heartbeat failed for session ${sessionId}:`, error);
+      });
+  }, PROCESSING_HEARTBEAT_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Runs the reaper once on startup and then every SESSION_REAPER_INTERVAL_MS.
+ * Returns a function that stops the timer.
+ */
+export function startSessionReaper(options: ReaperOptions) {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await reapOrphanedSessions(options);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("Session reaper failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, REAPER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,126 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import {
+  buildSpeakerAlignmentPrompt,
+  parseSpeakerAlignment
+} from "@/lib/providers/prompts";
+import type { SpeakerHints, SummaryProvider } from "@/lib/providers";
+
+/** Transcript lines passed to the model as context for the next chunk. */
+const HINT_LINES = 6;
+/** Transcripts longer than this are not sent for alignment in one prompt. */
+const ALIGNMENT_MAX_CHARS = Number(process.env.SPEAKER_ALIGNMENT_MAX_CHARS ?? 60_000);
+
+/**
+ * Speakers and last lines seen so far in a session, for the transcription
+ * prompt of its next chunk.
+ */
+export async function getSpeakerHints(sessionId: string): Promise<SpeakerHints> {
+  const [speakers, recent] = await Promise.all([
+    prisma.speaker.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: "asc" },
+      select: { label: true }
+    }),
+    prisma.transcriptSegment.findMany({
+      where: { chunk: { sessionId } },
+      orderBy: [{ chunk: { sequence: "desc" } }, { index: "desc" }],
+      take: HINT_LINES,
+      select: { speakerTag: true, text: true }
+    })
+  ]);
+
+  return {
+    knownSpeakers: speakers.map((speaker) => speaker.label),
+    previousLines: recent.reverse().map((segment) => `${segment.speakerTag}: ${segment.text}`)
+  };
+}
+
+/**
+ * Resolves segment labels to Speaker rows of the session, creating the ones
+ * seen for the first time. Runs inside the chunk's transaction.
+ */
+export async function resolveSpeakerIds(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  labels: string[]
+): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  for (const label of Array.from(new Set(labels))) {
+    const speaker = await tx.speaker.upsert({
+      where: { sessionId_label: { sessionId, label } },
+      update: {},
+      create: { sessionId, label },
+      select: { id: true }
+    });
+    ids.set(label, speaker.id);
+  }
+  return ids;
+}
+
+/**
+ * Post-stop pass making speaker identities consistent across chunks: the
+ * model sees the whole transcript with chunk numbers and maps every
+ * chunk-local label to a session-wide one, and segments are re-pointed at
+ * the matching Speaker rows. Unnamed speakers left without segments are
+ * removed. Returns the number of segments whose speaker changed.
+ */
+export async function alignSessionSpeakers(
+  sessionId: string,
+  summarizer: SummaryProvider
+): Promise<number> {
+  const segments = await prisma.transcriptSegment.findMany({
+    where: { chunk: { sessionId, status: "TRANSCRIBED" } },
+    orderBy: [{ chunk: { sequence: "asc" } }, { index: "asc" }],
+    select: {
+      id: true,
+      speakerTag: true,
+      text: true,
+      speakerId: true,
+      chunk: { select: { sequence: true } }
+    }
+  });
+  if (new Set(segments.map((segment) => segment.speakerTag)).size < 2) return 0;
+
+  const lines = segments.map(
+    (segment) => `[#${segment.chunk.sequence}] ${segment.speakerTag}: ${segment.text}`
+  );
+  if (lines.join("\n").length > ALIGNMENT_MAX_CHARS) {
+    // eslint-disable-next-line no-console
+    console.warn(`Transcript of session ${sessionId} too long for speaker alignment, skipped`);
+    return 0;
+  }
+
+  const mapping = parseSpeakerAlignment(
+    await summarizer.completeJson(buildSpeakerAlignmentPrompt(lines))
+  );
+  if (mapping.size === 0) return 0;
+
+  const moves = new Map<string, string[]>();
+  for (const segment of segments) {
+    const label = mapping.get(`${segment.chunk.sequence}:${segment.speakerTag}`);
+    if (!label) continue;
+    moves.set(label, [...(moves.get(label) ?? []), segment.id]);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const ids = await resolveSpeakerIds(tx, sessionId, Array.from(moves.keys()));
+    let changed = 0;
+    for (const [label, segmentIds] of Array.from(moves)) {
+      const speakerId = ids.get(label)!;
+      const { count } = await tx.transcriptSegment.updateMany({
+        where: {
+          id: { in: segmentIds },
+          OR: [{ speakerId: null }, { speakerId: { not: speakerId } }]
+        },
+        data: { speakerId }
+      });
+      changed += count;
+    }
+    await tx.speaker.deleteMany({
+      where: { sessionId, name: null, segments: { none: {} } }
+    });
+    return changed;
+  });
+}
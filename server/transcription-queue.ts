@@ -0,0 +1,178 @@
+type Job = {
+  sequence: number;
+  run: () => Promise<void>;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+};
+
+type SessionQueue = {
+  jobs: Job[];
+  running: Job | null;
+};
+
+export type SessionQueueDepth = {
+  sessionId: string;
+  queued: number;
+  inFlight: number;
+};
+
+export type QueueStats = {
+  concurrency: number;
+  queued: number;
+  inFlight: number;
+  sessions: number;
+};
+
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+type QueueOptions = {
+  /** Model calls allowed at once across all sessions. */
+  concurrency: number;
+  /** Chunks one session may have waiting before new ones are refused. */
+  maxQueuedPerSession: number;
+  /** Chunks waiting across all sessions before new ones are refused. */
+  maxQueuedTotal: number;
+  /** Called whenever a session's queue depth changes. */
+  onDepthChange?: (depth: SessionQueueDepth) => void;
+};
+
+/**
+ * Bounded job queue for chunk transcription.
+ *
+ * - At most `concurrency` jobs run at once, shared round-robin between
+ *   sessions so one long meeting cannot starve the others.
+ * - Jobs of a session run one at a time in sequence order, so
+ *   `transcription:update` events leave the server in order.
+ * - Enqueuing the same (session, sequence) twice returns the pending job,
+ *   which makes client retries after an ack timeout free.
+ */
+export function createTranscriptionQueue({
+  concurrency,
+  maxQueuedPerSession,
+  maxQueuedTotal,
+  onDepthChange
+}: QueueOptions) {
+  const sessions = new Map<string, SessionQueue>();
+  // Sessions with queued jobs and nothing running, in round-robin order
+  const ready: string[] = [];
+  let active = 0;
+  let queuedTotal = 0;
+
+  const reportDepth = (sessionId: string, queue: SessionQueue) => {
+    onDepthChange?.({
+      sessionId,
+      queued: queue.jobs.length,
+      inFlight: queue.running ? 1 : 0
+    });
+  };
+
+  const pump = () => {
+    while (active < concurrency && ready.length > 0) {
+      const sessionId = ready.shift()!;
+      const queue = sessions.get(sessionId);
+      const job = queue?.jobs.shift();
+      if (!queue || !job) continue;
+
+      queuedTotal -= 1;
+      queue.running = job;
+      active += 1;
+      reportDepth(sessionId, queue);
+
+      job
+        .run()
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          active -= 1;
+          queue.running = null;
+          if (queue.jobs.length > 0) {
+            ready.push(sessionId);
+          } else {
+            sessions.delete(sessionId);
+          }
+          reportDepth(sessionId, queue);
+          pump();
+        });
+    }
+  };
+
+  const enqueue = (
+    sessionId: string,
+    sequence: number,
+    run: () => Promise<void>
+  ): Promise<void> => {
+    let queue = sessions.get(sessionId);
+
+    const existing =
+      queue?.running?.sequence === sequence
+        ? queue.running
+        : queue?.jobs.find((job) => job.sequence === sequence);
+    if (existing) return existing.promise;
+
+    if (queue && queue.jobs.length >= maxQueuedPerSession) {
+      return Promise.reject(
+        new QueueFullError(`Session has ${queue.jobs.length} chunks waiting`)
+      );
+    }
+    if (queuedTotal >= maxQueuedTotal) {
+      return Promise.reject(
+        new QueueFullError(`Server has ${queuedTotal} chunks waiting`)
+      );
+    }
+
+    if (!queue) {
+      queue = { jobs: [], running: null };
+      sessions.set(sessionId, queue);
+    }
+
+    let resolve!: () => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const job: Job = { sequence, run, promise, resolve, reject };
+
+    // Keep sequence order even when retries arrive late
+    const insertAt = queue.jobs.findIndex((queued) => queued.sequence > sequence);
+    if (insertAt === -1) {
+      queue.jobs.push(job);
+    } else {
+      queue.jobs.splice(insertAt, 0, job);
+    }
+    queuedTotal += 1;
+
+    if (!queue.running && !ready.includes(sessionId)) {
+      ready.push(sessionId);
+    }
+    reportDepth(sessionId, queue);
+    pump();
+
+    return promise;
+  };
+
+  const depth = (sessionId: string): SessionQueueDepth => {
+    const queue = sessions.get(sessionId);
+    return {
+      sessionId,
+      queued: queue?.jobs.length ?? 0,
+      inFlight: queue?.running ? 1 : 0
+    };
+  };
+
+  const stats = (): QueueStats => ({
+    concurrency,
+    queued: queuedTotal,
+    inFlight: active,
+    sessions: sessions.size
+  });
+
+  return { enqueue, depth, stats };
+}
+
+export type TranscriptionQueue = ReturnType<typeof createTranscriptionQueue>;
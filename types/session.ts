@@ -4,22 +4,313 @@ export type SessionStatus =
   | "PAUSED"
   | "PROCESSING"
   | "COMPLETED"
-  | "FAILED";
+  | "FAILED"
+  | "RECONNECTING";
+
+/** Session status as stored on the server (no client-only states). */
+export type ServerSessionStatus =
+  | Exclude<SessionStatus, "IDLE" | "RECONNECTING">
+  | "PENDING";
 
 export type RecordingSource = "MIC" | "TAB";
 
+/**
+ * Outcome of transcribing one chunk. FAILED means the provider errored after
+ * retries; SKIPPED means the call was never made because the provider's
+ * circuit breaker was open.
+ */
+export type ChunkStatus = "TRANSCRIBED" | "FAILED" | "SKIPPED";
+
+/** One speaker turn inside a chunk. */
+export type TranscriptSegment = {
+  speakerTag: string;
+  text: string;
+  /** Position within the chunk's audio, in ms, when the provider reports it. */
+  startMs?: number;
+  endMs?: number;
+  confidence?: number;
+};
+
 export type TranscriptUpdate = {
   sessionId: string;
   sequence: number;
   text: string;
   speakerTag: string;
   confidence?: number;
+  status: ChunkStatus;
+  error?: string;
+  /** Speaker turns; empty for silence or when transcription failed. */
+  segments: TranscriptSegment[];
+  /** Position in the recording (excluding pauses), when the client sent it. */
+  startOffsetMs?: number;
+  endOffsetMs?: number;
+};
+
+/** Audio chunk as sent over `session:chunk`. */
+export type ChunkPayload = {
+  sessionId: string;
+  sequence: number;
+  /** Wall-clock bounds, epoch ms. */
+  startedAt: number;
+  endedAt: number;
+  /** Media position from session start, excluding paused time. */
+  startOffsetMs: number;
+  endOffsetMs: number;
+  speakerTag: string;
+  audio: string; // base64
+  /** MediaRecorder mime type, e.g. `audio/webm;codecs=opus`. */
+  mimeType: string;
+};
+
+/** Server acknowledgement for a single `session:chunk`. */
+export type ChunkAck =
+  | { ok: true; sequence: number }
+  | { ok: false; sequence?: number; error: string; retryable: boolean };
+
+/** Server transcription queue depth for one session (`session:queue`). */
+export type QueueStatus = {
+  sessionId: string;
+  queued: number;
+  inFlight: number;
+  /** True while the server wants the client to hold back retries. */
+  backpressure: boolean;
+};
+
+/** One section of a summary template, e.g. "Blockers" for a standup. */
+export type SummaryTemplateSection = {
+  /** JSON key the model fills in, e.g. "blockers". */
+  key: string;
+  title: string;
+  /** What the model should put in this section. */
+  instructions: string;
+  /** Items of "actionItems" sections carry owner and due date and become ActionItem records. */
+  kind: "items" | "actionItems";
+};
+
+/** Named summary layout: built in, or created by a user (`/api/summary-templates`). */
+export type SummaryTemplate = {
+  id: string;
+  name: string;
+  /** Guidance for the summary as a whole, e.g. who the audience is. */
+  instructions: string | null;
+  sections: SummaryTemplateSection[];
+  builtIn: boolean;
+};
+
+/** A rendered template section: one "- item [#n]" line per item, or "None". */
+export type SummarySection = {
+  key: string;
+  title: string;
+  content: string;
 };
 
 export type SessionSummary = {
+  /**
+   * Key points, action items and decisions of the Meeting template. Other
+   * templates fill them from their sections so list previews keep working.
+   */
   keyPoints: string;
   actionItems: string;
   decisions: string;
+  /** All sections of the template the summary was generated with, in order. */
+  sections: SummarySection[];
+  templateId: string | null;
+};
+
+/** One summary bullet and the chunk sequences it was drawn from. */
+export type SummaryItem = {
+  text: string;
+  citations: number[];
+  /** Set on items of "actionItems" sections. */
+  owner?: string | null;
+  /** YYYY-MM-DD, on items of "actionItems" sections. */
+  dueDate?: string | null;
+};
+
+/** Summary as produced by the model, keyed by template section. */
+export type StructuredSummary = Record<string, SummaryItem[]>;
+
+/** Rolling summary of a session that is still recording (`summary:partial`). */
+export type SummaryPartial = {
+  sessionId: string;
+  summary: SessionSummary;
+  /** Highest chunk sequence the summary covers. */
+  throughSequence: number;
+  generatedAt: string;
+};
+
+/** Server response to `session:rejoin`, sent after missed updates are replayed. */
+export type RejoinAck =
+  | {
+      ok: true;
+      status: ServerSessionStatus;
+      summary: SessionSummary | null;
+      replayed: number;
+    }
+  | { ok: false; error: string };
+
+/** Persisted transcript chunk as returned by `GET /api/sessions/[id]`. */
+export type TranscriptChunkRecord = {
+  id: string;
+  sequence: number;
+  speakerTag: string;
+  text: string;
+  startedAt: string;
+  endedAt: string;
+  startOffsetMs: number | null;
+  endOffsetMs: number | null;
+  confidence: number | null;
+  status: ChunkStatus;
+  error: string | null;
+  audioUrl: string | null;
+  segments: TranscriptSegmentRecord[];
+};
+
+/** Persisted speaker turn, ordered by `index` within its chunk. */
+export type TranscriptSegmentRecord = {
+  index: number;
+  speakerTag: string;
+  /** Aligned session-wide speaker, see `SessionDetail.speakers`. */
+  speakerId: string | null;
+  text: string;
+  startMs: number | null;
+  endMs: number | null;
+  confidence: number | null;
+};
+
+/** How a summary version came to be. */
+export type SummaryVersionSource = "GENERATED" | "EDITED" | "RESTORED";
+
+/** History entry of a session's summary, without its content. */
+export type SummaryVersionMeta = {
+  version: number;
+  source: SummaryVersionSource;
+  /** Provider and model of GENERATED versions. */
+  provider: string | null;
+  model: string | null;
+  templateId: string | null;
+  /** Null for summaries generated when the recording stopped. */
+  createdBy: { id: string; name: string | null; email: string } | null;
+  /** Version a RESTORED version was copied from. */
+  restoredFrom: number | null;
+  createdAt: string;
 };
 
+export type SummaryVersion = SummaryVersionMeta & SessionSummary;
+
+/** One line of a summary diff. */
+export type SummaryDiffLine = { type: "same" | "added" | "removed"; text: string };
+
+/** Line diff between two summary versions, section by section. */
+export type SummaryDiff = {
+  from: number;
+  to: number;
+  sections: Array<{ key: string; title: string; changes: SummaryDiffLine[] }>;
+};
+
+/** Progress of a session's summary, see `POST /api/sessions/[id]/summary`. */
+export type SummaryStatus = "PENDING" | "GENERATING" | "READY" | "FAILED" | "SKIPPED";
+
+/** A past recording with its full transcript (`GET /api/sessions/[id]`). */
+export type SessionDetail = {
+  id: string;
+  status: ServerSessionStatus;
+  source: RecordingSource;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number | null;
+  tags: string[];
+  interruptionAt: string | null;
+  statusReason: string | null;
+  audioArtifact: string | null;
+  /** The current summary; `version` points into `summaryVersions`. */
+  summary: (SessionSummary & { version: number }) | null;
+  summaryStatus: SummaryStatus;
+  summaryError: string | null;
+  /** Summary history, newest first. */
+  summaryVersions: SummaryVersionMeta[];
+  transcript: TranscriptChunkRecord[];
+  speakers: SpeakerRecord[];
+};
+
+/** Body item of `PATCH /api/sessions/[id]/speakers`. */
+export type SpeakerRename = {
+  /** Session-wide label, e.g. "Speaker 2". */
+  label: string;
+  /** New display name; null resets to the label. */
+  name: string | null;
+};
 
+export type ActionItemStatus = "OPEN" | "DONE";
+
+/** A stored action item as returned by `/api/action-items`. */
+export type ActionItemRecord = {
+  id: string;
+  sessionId: string;
+  text: string;
+  owner: string | null;
+  dueDate: string | null;
+  status: ActionItemStatus;
+  /** Chunk the item was said in. */
+  sourceSequence: number | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  session: { startedAt: string };
+};
+
+/** A person in a recording; `name` is set once a user renames them. */
+export type SpeakerRecord = {
+  id: string;
+  label: string;
+  name: string | null;
+};
+
+/** Piece of a search snippet; `match` marks words that matched the query. */
+export type SnippetPart = { text: string; match: boolean };
+
+/** A hit of `GET /api/search`. */
+export type SearchResult = {
+  kind: "transcript" | "summary";
+  sessionId: string;
+  sessionStartedAt: string;
+  /** Chunk the match is in; null for summary hits. */
+  sequence: number | null;
+  rank: number;
+  snippet: SnippetPart[];
+};
+
+/** A session in `GET /api/sessions`, without transcript. */
+export type SessionListItem = {
+  id: string;
+  status: ServerSessionStatus;
+  source: RecordingSource;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number | null;
+  tags: string[];
+  statusReason: string | null;
+  interruptionAt: string | null;
+  summaryStatus: SummaryStatus;
+  /** Start of the summary's key points, else of the first transcribed chunk. */
+  preview: string | null;
+};
+
+/** One page of `GET /api/sessions`; pass `nextCursor` as `?cursor=` for the next. */
+export type SessionPage = {
+  sessions: SessionListItem[];
+  nextCursor: string | null;
+};
+
+/** Query parameters of `GET /api/sessions`; durations in milliseconds. */
+export type SessionListFilters = {
+  status?: ServerSessionStatus;
+  source?: RecordingSource;
+  from?: string;
+  to?: string;
+  tag?: string;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  sort?: "startedAt" | "durationMs";
+  order?: "asc" | "desc";
+};